@@ -2,16 +2,31 @@
 "use client";
 import React, { useMemo, useState, useRef, WheelEvent, MouseEvent as ReactMouseEvent, useCallback, useEffect } from 'react';
 import { useLambda } from '@/contexts/LambdaContext';
-import { generateAstSvgData, AstSvgRenderData, SvgAstNode, SvgLambdaNode, SvgVariableNode, SvgApplicationNode, generateSingleNodeSvgData } from '@/lib/lambda-calculus/ast-svg/ast-svg-loader';
+import { generateAstSvgData, AstSvgRenderData, SvgAstNode, SvgLambdaNode, SvgVariableNode, SvgApplicationNode, generateSingleNodeSvgData, planAstTransition, astTransitionFrame } from '@/lib/lambda-calculus/ast-svg/ast-svg-loader';
+import type { AstTransition, AstTransitionFrame, CanvasPlacement } from '@/lib/lambda-calculus/ast-svg/ast-svg-loader';
 import { prettifyAST } from '@/lib/lambda-calculus/prettifier';
 import { print } from '@/lib/lambda-calculus/printer';
-import { predefinedExpressions } from '@/lib/lambda-calculus/predefined';
+import { predefinedExpressionsFor } from '@/lib/lambda-calculus/encodings';
+import { inferTypes, printTypes, TypeInferenceError } from '@/lib/lambda-calculus/type-inference';
+import type { TypeInferenceResult } from '@/lib/lambda-calculus/type-inference';
+import { checkTypes, TypeCheckError } from '@/lib/lambda-calculus/type-checker';
+import type { TypeCheckResult } from '@/lib/lambda-calculus/type-checker';
+import { hasTypeAnnotations, printTypeExpression } from '@/lib/lambda-calculus/system-f';
+import { nodesDescendingFrom, originsOf, provenanceKinds } from '@/lib/lambda-calculus/provenance';
+import type { ProvenanceKind } from '@/lib/lambda-calculus/provenance';
+import { playbackSpeedInfo } from '@/lib/playback';
+import { astTreeImage } from '@/lib/diagram-export';
+import type { DiagramImage } from '@/lib/diagram-export';
+import { DiagramExportMenu } from '@/components/lambda/DiagramExportMenu';
+import type { ExportHighlight } from '@/components/lambda/DiagramExportMenu';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AlertTriangle, Info, Home } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
-import type { ASTNodeId } from '@/lib/lambda-calculus/types';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import type { ASTNode, ASTNodeId } from '@/lib/lambda-calculus/types';
 
 const NODE_FONT_SIZE = 14;
 const NODE_RX = 6;
@@ -19,8 +34,15 @@ const MIN_SCALE = 0.05;
 const MAX_SCALE = 5;
 const FIT_PADDING_FACTOR = 0.9;
 const MIN_VISIBLE_CONTENT_PERCENTAGE = 0.1;
+const MAX_TRANSITION_NODES = 1500; // Larger trees are redrawn without a transition
 
-const getNodeStyles = (node: SvgAstNode) => {
+// Outline of the nodes the last step copied from its argument or renamed; kept nodes are unmarked
+const PROVENANCE_STROKES: Partial<Record<ProvenanceKind, string>> = {
+  'argument-copy': 'hsl(var(--ast-argument-copy))',
+  'renamed': 'hsl(var(--ast-renamed))',
+};
+
+const getNodeStyles = (node: SvgAstNode, highlightColor: string) => {
   let fill = 'hsl(var(--card))';
   let stroke = 'hsl(var(--border))';
   let textFill = 'hsl(var(--foreground))';
@@ -58,15 +80,47 @@ const getNodeStyles = (node: SvgAstNode) => {
   }
 
   if (node.isHighlighted) {
-    stroke = 'hsl(var(--ast-highlight-bg))';
+    stroke = highlightColor;
   }
   return { fill, stroke, textFill };
 };
 
+// Text of a node as laid out, with the type operations around it
+const nodeLabel = (node: SvgAstNode): string => {
+  let label = '';
+  switch (node.type) {
+    case 'variable':
+      label = (node as SvgVariableNode).name;
+      break;
+    case 'lambda': {
+      const lambdaNode = node as SvgLambdaNode;
+      label = lambdaNode.paramType ? `λ${lambdaNode.param}:${lambdaNode.paramType}.` : `λ${lambdaNode.param}.`;
+      break;
+    }
+    case 'application':
+      label = '@';
+      break;
+  }
+  return `${node.typePrefix ?? ''}${label}${node.typeSuffix ?? ''}`;
+};
+
 const clampValue = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
 
+// Pan and zoom: a canvas point p is drawn at p * scale + (x, y) in the container
+type ViewTransform = CanvasPlacement;
+
+// A tree on screen, with the view it was seen in
+interface ShownTree {
+  ast: ASTNode;
+  data: AstSvgRenderData;
+  view: ViewTransform;
+}
+
 export function ASTVisualizer() {
-  const { currentAST, isLoading, error: contextError, highlightedRedexId, customExpressions } = useLambda();
+  const { currentAST, isLoading, error: contextError, highlightedRedexId, highlightedStepKind, customExpressions: libraryExpressions, scriptDefinitions, redexIds, reduceRedex, etaExpandNode, dataEncoding, astHistory, historySteps, historyIndex, playbackSpeed } = useLambda();
+  const transitionMs = playbackSpeedInfo(playbackSpeed).transitionMs;
+  const predefinedExpressions = predefinedExpressionsFor(dataEncoding);
+  const customExpressions = useMemo(() => [...libraryExpressions, ...scriptDefinitions], [libraryExpressions, scriptDefinitions]);
 
   const [scale, setScale] = useState(1);
   const [translateX, setTranslateX] = useState(0);
@@ -77,12 +131,27 @@ export function ASTVisualizer() {
   const [isGloballyCollapsedMode, setIsGloballyCollapsedMode] = useState(true);
   const [significantPrettifiedName, setSignificantPrettifiedName] = useState<string | null>(null);
   const [expandedSubtreeNodeIds, setExpandedSubtreeNodeIds] = useState<Set<ASTNodeId>>(new Set());
+  const [showTypes, setShowTypes] = useState(false);
+  const [hoveredNodeId, setHoveredNodeId] = useState<ASTNodeId | null>(null);
+  const [showOrigins, setShowOrigins] = useState(false);
+  // The AST shown before the current one, so that expanded names can follow their nodes through a step
+  const shownAstRef = useRef<ASTNode | null>(null);
+
+  const [animateSteps, setAnimateSteps] = useState(true);
+  // The tree of the current term and the last tree of the term shown before it, to tween between them
+  const shownTreeRef = useRef<ShownTree | null>(null);
+  const previousTreeRef = useRef<ShownTree | null>(null);
+  const [transition, setTransition] = useState<{ plan: AstTransition; ast: ASTNode; startedAt: number } | null>(null);
+  const [transitionFrame, setTransitionFrame] = useState<AstTransitionFrame | null>(null);
 
   const svgContainerRef = useRef<HTMLDivElement>(null);
+  const redexIdSet = useMemo(() => new Set(redexIds), [redexIds]);
+  // Eta steps (reductions and expansions) are highlighted in their own color
+  const highlightColor = highlightedStepKind && highlightedStepKind !== 'beta' ? 'hsl(var(--ast-eta-highlight-bg))' : 'hsl(var(--ast-highlight-bg))';
 
   useEffect(() => {
     if (currentAST) {
-      const prettyName = prettifyAST(currentAST, customExpressions, predefinedExpressions);
+      const prettyName = prettifyAST(currentAST, customExpressions, predefinedExpressions, {}, dataEncoding);
       const canonicalPrintVal = print(currentAST);
       const isSignificantGlobalCollapse = prettyName !== canonicalPrintVal && !prettyName.includes(" ") && prettyName.startsWith('_');
 
@@ -93,13 +162,26 @@ export function ASTVisualizer() {
         setSignificantPrettifiedName(null);
         setIsGloballyCollapsedMode(false);
       }
-      setExpandedSubtreeNodeIds(new Set()); // Reset subtree expansions on AST change
+      // Subtree expansions follow their nodes one step forward or back in the history, and reset otherwise
+      const shown = shownAstRef.current;
+      const stepForward = historySteps[historyIndex - 1];
+      const stepBack = historySteps[historyIndex];
+      setExpandedSubtreeNodeIds(prev => {
+        if (shown === currentAST) return prev;
+        if (shown && stepForward && astHistory[historyIndex - 1] === shown) return nodesDescendingFrom(prev, stepForward.provenance);
+        if (shown && stepBack && astHistory[historyIndex + 1] === shown) return originsOf(prev, stepBack.provenance);
+        return new Set();
+      });
     } else {
       setSignificantPrettifiedName(null);
       setIsGloballyCollapsedMode(false);
       setExpandedSubtreeNodeIds(new Set());
     }
-  }, [currentAST, customExpressions]);
+    shownAstRef.current = currentAST;
+  }, [currentAST, customExpressions, predefinedExpressions, dataEncoding, astHistory, historySteps, historyIndex]);
+
+  // How the last step produced each node of the current term
+  const provenance = showOrigins ? historySteps[historyIndex - 1]?.provenance : undefined;
 
 
   const svgRenderData: AstSvgRenderData | null = useMemo(() => {
@@ -108,12 +190,62 @@ export function ASTVisualizer() {
       if (isGloballyCollapsedMode && significantPrettifiedName) {
         return generateSingleNodeSvgData(significantPrettifiedName, currentAST.id, significantPrettifiedName);
       }
-      return generateAstSvgData(currentAST, highlightedRedexId, customExpressions, predefinedExpressions, expandedSubtreeNodeIds);
+      return generateAstSvgData(currentAST, highlightedRedexId, customExpressions, predefinedExpressions, expandedSubtreeNodeIds, dataEncoding);
     } catch (e: any) {
       console.error("Error generating AST SVG data:", e);
       return { nodes: [], connectors: [], canvasWidth: 300, canvasHeight: 100, error: e.message || "Layout error" };
     }
-  }, [currentAST, highlightedRedexId, isGloballyCollapsedMode, significantPrettifiedName, customExpressions, predefinedExpressions, expandedSubtreeNodeIds]);
+  }, [currentAST, highlightedRedexId, isGloballyCollapsedMode, significantPrettifiedName, customExpressions, predefinedExpressions, expandedSubtreeNodeIds, dataEncoding]);
+
+  // Types of the term and its sub-terms, or the error that rules them out. Terms with type annotations
+  // are checked against them; untyped terms get their principal types inferred.
+  type Typing = { result: TypeInferenceResult | TypeCheckResult } | { error: TypeInferenceError | TypeCheckError };
+  const typing: Typing | null = useMemo(() => {
+    if (!showTypes || !currentAST) return null;
+    try {
+      return { result: hasTypeAnnotations(currentAST) ? checkTypes(currentAST) : inferTypes(currentAST) };
+    } catch (e) {
+      if (e instanceof TypeInferenceError || e instanceof TypeCheckError) return { error: e };
+      throw e;
+    }
+  }, [showTypes, currentAST]);
+  const typeErrorNodeId = typing && 'error' in typing ? typing.error.nodeId : null;
+  // Printed together so a type variable has the same name in the term's type, the hovered node's and the assumptions
+  const typeTexts = useMemo(() => {
+    if (!typing || !('result' in typing)) return null;
+    const isHovered = (id: ASTNodeId | null): id is ASTNodeId => !!id && id !== currentAST?.id;
+    if (!('freeVariables' in typing.result)) {
+      // Checked types are shown as annotated
+      const hoveredType = isHovered(hoveredNodeId) ? typing.result.nodeTypes.get(hoveredNodeId) : undefined;
+      return { term: printTypeExpression(typing.result.type), assumptions: [], hovered: hoveredType ? printTypeExpression(hoveredType) : null };
+    }
+    const { type, nodeTypes, freeVariables } = typing.result;
+    const hoveredType = isHovered(hoveredNodeId) ? nodeTypes.get(hoveredNodeId) : undefined;
+    const [term, ...rest] = printTypes([type, ...freeVariables.values(), ...(hoveredType ? [hoveredType] : [])]);
+    const freeNames = [...freeVariables.keys()];
+    return {
+      term,
+      assumptions: freeNames.map((name, i) => `${name} : ${rest[i]}`),
+      hovered: hoveredType ? rest[freeNames.length] : null,
+    };
+  }, [typing, hoveredNodeId, currentAST]);
+
+  // A step's tree for export: the current step as shown, other steps with their named terms collapsed
+  const astStepImage = useCallback((ast: ASTNode, highlight?: ExportHighlight): DiagramImage | null => {
+    const data = ast === currentAST && svgRenderData
+      ? svgRenderData
+      : generateAstSvgData(ast, highlight?.redexId, customExpressions, predefinedExpressions, new Set(), dataEncoding);
+    if (data.error || data.nodes.length === 0) return null;
+    const stepHighlightColor = highlight && highlight.kind !== 'beta' ? 'hsl(var(--ast-eta-highlight-bg))' : 'hsl(var(--ast-highlight-bg))';
+    return astTreeImage(data, {
+      nodeColors: node => getNodeStyles(node, stepHighlightColor),
+      label: nodeLabel,
+      connectorStroke: connector => connector.isHighlighted ? stepHighlightColor : 'hsl(var(--foreground)/0.5)',
+      cornerRadius: NODE_RX,
+      fontSize: NODE_FONT_SIZE,
+      fontFamily: 'var(--font-geist-mono), monospace',
+    });
+  }, [currentAST, svgRenderData, customExpressions, predefinedExpressions, dataEncoding]);
 
   const layoutError = svgRenderData?.error;
   const displayError = contextError || layoutError;
@@ -155,11 +287,12 @@ export function ASTVisualizer() {
     };
   }, [svgRenderData]);
 
-  const fitView = useCallback(() => {
+  // The view that fits the whole tree into the container
+  const fittedView = useCallback((): ViewTransform | null => {
     if (svgContainerRef.current && svgRenderData && svgRenderData.canvasWidth > 0 && svgRenderData.canvasHeight > 0) {
       const containerWidth = svgContainerRef.current.clientWidth;
       const containerHeight = svgContainerRef.current.clientHeight;
-      if (containerWidth <=0 || containerHeight <=0) return;
+      if (containerWidth <=0 || containerHeight <=0) return null;
 
       const scaleX = (containerWidth * FIT_PADDING_FACTOR) / svgRenderData.canvasWidth;
       const scaleY = (containerHeight * FIT_PADDING_FACTOR) / svgRenderData.canvasHeight;
@@ -170,15 +303,78 @@ export function ASTVisualizer() {
       const newTranslateY = (containerHeight - svgRenderData.canvasHeight * newScale) / 2;
 
       const clamped = getClampedTranslations(newTranslateX, newTranslateY, newScale);
-      setScale(newScale);
-      setTranslateX(clamped.x);
-      setTranslateY(clamped.y);
+      return { scale: newScale, x: clamped.x, y: clamped.y };
     }
+    return null;
   }, [svgRenderData, getClampedTranslations]);
 
+  const fitView = useCallback(() => {
+    const view = fittedView();
+    if (!view) return;
+    setScale(view.scale);
+    setTranslateX(view.x);
+    setTranslateY(view.y);
+  }, [fittedView]);
+
   useEffect(() => {
+    const view = fittedView();
+    const shown = shownTreeRef.current;
+    const isNewTerm = shown?.ast !== currentAST;
+    if (!currentAST || !svgRenderData || !view) {
+      shownTreeRef.current = null;
+      previousTreeRef.current = null;
+      setTransition(null);
+      setTransitionFrame(null);
+      fitView();
+      return;
+    }
+    // The tree being replaced is remembered as it was seen, panned and zoomed
+    if (isNewTerm) previousTreeRef.current = shown && { ...shown, view: { scale, x: translateX, y: translateY } };
+    shownTreeRef.current = { ast: currentAST, data: svgRenderData, view };
+
+    // A move one step forward in the history is animated, using the provenance the reducer recorded.
+    // The new term can be laid out again while its expansions catch up with the step; the running
+    // transition is then re-aimed at the new layout.
+    const previous = previousTreeRef.current;
+    const step = historySteps[historyIndex - 1];
+    if (
+      animateSteps && previous && step && !svgRenderData.error &&
+      astHistory[historyIndex - 1] === previous.ast && (isNewTerm || transition?.ast === currentAST) &&
+      previous.data.nodes.length + svgRenderData.nodes.length <= MAX_TRANSITION_NODES
+    ) {
+      const placement: CanvasPlacement = {
+        scale: previous.view.scale / view.scale,
+        x: (previous.view.x - view.x) / view.scale,
+        y: (previous.view.y - view.y) / view.scale,
+      };
+      const plan = planAstTransition(previous.data, svgRenderData, step.provenance, placement);
+      const startedAt = isNewTerm || !transition ? performance.now() : transition.startedAt;
+      setTransition({ plan, ast: currentAST, startedAt });
+      setTransitionFrame(astTransitionFrame(plan, Math.min(1, (performance.now() - startedAt) / transitionMs)));
+    } else if (isNewTerm) {
+      setTransition(null);
+      setTransitionFrame(null);
+    }
     fitView();
-  }, [svgRenderData, fitView]);
+  }, [svgRenderData, fittedView, fitView]);
+
+  // Plays the current transition, one frame per animation frame
+  useEffect(() => {
+    if (!transition) return;
+    let frameId = 0;
+    const tick = (now: number) => {
+      const progress = (now - transition.startedAt) / transitionMs;
+      if (progress >= 1) {
+        setTransition(null);
+        setTransitionFrame(null);
+        return;
+      }
+      setTransitionFrame(astTransitionFrame(transition.plan, progress));
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [transition, transitionMs]);
 
   const handleWheel = (e: WheelEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -240,6 +436,12 @@ export function ASTVisualizer() {
 
   const handleSubtreeNodeClick = (event: ReactMouseEvent<SVGElement>, clickedNodeId: ASTNodeId, isNodeGreedilyCollapsible?: boolean) => {
     event.stopPropagation(); // Prevent global click
+    // Collapsed names expand first; an expanded redex application is contracted on click
+    const isExpanded = expandedSubtreeNodeIds.has(clickedNodeId);
+    if (redexIdSet.has(clickedNodeId) && (!isNodeGreedilyCollapsible || isExpanded)) {
+      reduceRedex(clickedNodeId);
+      return;
+    }
     if (isNodeGreedilyCollapsible) {
       setExpandedSubtreeNodeIds(prev => {
         const newSet = new Set(prev);
@@ -253,13 +455,105 @@ export function ASTVisualizer() {
     }
   };
 
+  // A node of the tree; nodes fading in or out during a step transition are drawn translucent
+  const renderNode = (node: SvgAstNode, opacity = 1) => {
+    const styles = getNodeStyles(node, highlightColor);
+    // Applications can be β-redexes, lambdas η-redexes
+    const isRedexNode = (node.type === 'application' || node.type === 'lambda') && redexIdSet.has(node.id);
+    const canEtaExpand = node.type === 'lambda' || node.type === 'variable';
+    const isTypeErrorNode = node.id === typeErrorNodeId;
+    const nodeProvenance = provenance?.get(node.id);
+    const provenanceStroke = nodeProvenance && !node.isHighlighted ? PROVENANCE_STROKES[nodeProvenance.kind] : undefined;
+    const provenanceTitle = provenance && historyIndex > 0
+      ? nodeProvenance ? provenanceKinds.find(kind => kind.id === nodeProvenance.kind)?.description : 'Created by the last step'
+      : undefined;
+    let textContent = '';
+
+    if (isGloballyCollapsedMode && significantPrettifiedName && node.name === significantPrettifiedName && node.type === 'variable') {
+        textContent = node.name;
+    }
+    else if (node.type === 'variable' && node.name.startsWith('_') && node.isGreedilyCollapsible && !expandedSubtreeNodeIds.has(node.id)) {
+        textContent = node.name;
+    }
+    else {
+        textContent = nodeLabel(node);
+    }
+
+    return (
+      <g
+        key={node.svgId}
+        transform={`translate(${node.x}, ${node.y})`}
+        opacity={opacity < 1 ? opacity : undefined}
+        data-ast-node-id={node.id} // For click handling
+        onClick={(e) => handleSubtreeNodeClick(e, node.id, node.isGreedilyCollapsible)}
+        onContextMenu={canEtaExpand ? (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          etaExpandNode(node.id);
+        } : undefined}
+        onMouseEnter={showTypes ? () => setHoveredNodeId(node.id) : undefined}
+        onMouseLeave={showTypes ? () => setHoveredNodeId(null) : undefined}
+        className={cn((node.isGreedilyCollapsible || isRedexNode) && 'cursor-pointer')}
+      >
+        {(isRedexNode || canEtaExpand || provenanceTitle) && (
+          <title>
+            {[
+              provenanceTitle,
+              [
+                isRedexNode && (node.type === 'lambda' ? 'Click to η-reduce' : 'Click to contract this redex'),
+                canEtaExpand && 'Right-click to η-expand',
+              ].filter(Boolean).join(' · '),
+            ].filter(Boolean).join('\n')}
+          </title>
+        )}
+        <rect
+          width={node.width}
+          height={node.height}
+          rx={NODE_RX}
+          ry={NODE_RX}
+          fill={styles.fill}
+          stroke={isTypeErrorNode ? 'hsl(var(--destructive))' : provenanceStroke ?? styles.stroke}
+          strokeWidth={node.isHighlighted || isTypeErrorNode || provenanceStroke ? (2/scale) : (1.5/scale)}
+          strokeDasharray={isRedexNode && !node.isHighlighted ? `${4/scale} ${2/scale}` : undefined}
+        />
+        <text
+          x={node.width / 2}
+          y={node.height / 2}
+          textAnchor="middle"
+          dominantBaseline="central"
+          fill={styles.textFill}
+          fontSize={NODE_FONT_SIZE}
+          fontFamily="var(--font-geist-mono)"
+          style={{ pointerEvents: 'none' }}
+        >
+          {textContent}
+        </text>
+      </g>
+    );
+  };
+
   return (
     <Card className="h-full flex flex-col">
       <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle className="text-xl font-semibold">Abstract Syntax Tree</CardTitle>
-        <Button variant="ghost" size="icon" onClick={fitView} title="Reset View">
-          <Home className="h-5 w-5" />
-        </Button>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Switch id="ast-animate-steps" checked={animateSteps} onCheckedChange={setAnimateSteps} />
+            <Label htmlFor="ast-animate-steps" className="text-xs text-muted-foreground font-normal" title="Animate each reduction step: surviving nodes move to their new places, the redex fades out and copies of the argument fade in">Animate</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="ast-show-origins" checked={showOrigins} onCheckedChange={setShowOrigins} />
+            <Label htmlFor="ast-show-origins" className="text-xs text-muted-foreground font-normal" title="Outline the nodes the last step copied from its argument or renamed by α-conversion; hover a node to see where it came from">Origins</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="ast-show-types" checked={showTypes} onCheckedChange={setShowTypes} />
+            <Label htmlFor="ast-show-types" className="text-xs text-muted-foreground font-normal" title="Check typed terms against their annotations, infer simple types (Hindley–Milner) of untyped ones; hover a node to see its type">Types</Label>
+          </div>
+          <Button variant="ghost" size="icon" onClick={fitView} title="Reset View">
+            <Home className="h-5 w-5" />
+          </Button>
+          <DiagramExportMenu fileName="ast" drawStep={astStepImage} />
+        </div>
       </CardHeader>
       <CardContent
         ref={svgContainerRef}
@@ -293,81 +587,56 @@ export function ASTVisualizer() {
         )}
         {svgRenderData && svgRenderData.nodes.length > 0 && !displayError && (
           <svg
-            key={currentAST?.id ? `${currentAST.id}-${isGloballyCollapsedMode}-${[...expandedSubtreeNodeIds].sort().join('-')}` : `ast-svg-${isGloballyCollapsedMode}`}
+            // Animated steps morph the drawing in place; otherwise a new drawing fades in
+            key={animateSteps ? 'ast-svg' : currentAST?.id ? `${currentAST.id}-${isGloballyCollapsedMode}-${[...expandedSubtreeNodeIds].sort().join('-')}` : `ast-svg-${isGloballyCollapsedMode}`}
             width="100%"
             height="100%"
             xmlns="http://www.w3.org/2000/svg"
             className={cn("animate-fadeIn", {"border border-dashed border-destructive": !!layoutError})}
             style={{ minHeight: '200px' }}
           >
-            <g transform={`translate(${translateX}, ${translateY}) scale(${scale})`}>
-              {svgRenderData.connectors.map(connector => (
+            <g
+              transform={`translate(${translateX}, ${translateY}) scale(${scale})`}
+              style={transitionFrame ? { pointerEvents: 'none' } : undefined}
+            >
+              {(transitionFrame ? transitionFrame.connectors : svgRenderData.connectors.map(connector => ({ connector, opacity: 1 }))).map(({ connector, opacity }) => (
                 <path
                   key={connector.id}
                   d={connector.pathD}
-                  stroke={connector.isHighlighted ? 'hsl(var(--ast-highlight-bg))' : 'hsl(var(--foreground)/0.5)'}
+                  stroke={connector.isHighlighted ? highlightColor : 'hsl(var(--foreground)/0.5)'}
                   strokeWidth={connector.isHighlighted ? (2/scale) : (1.5/scale)}
+                  opacity={opacity < 1 ? opacity : undefined}
                   fill="none"
                 />
               ))}
-              {svgRenderData.nodes.map(node => {
-                const styles = getNodeStyles(node);
-                let textContent = '';
-
-                if (isGloballyCollapsedMode && significantPrettifiedName && node.name === significantPrettifiedName && node.type === 'variable') {
-                    textContent = node.name;
-                }
-                else if (node.type === 'variable' && node.name.startsWith('_') && node.isGreedilyCollapsible && !expandedSubtreeNodeIds.has(node.id)) {
-                    textContent = node.name;
-                }
-                else {
-                    switch (node.type) {
-                    case 'variable':
-                        textContent = (node as SvgVariableNode).name;
-                        break;
-                    case 'lambda':
-                        textContent = `λ${(node as SvgLambdaNode).param}.`;
-                        break;
-                    case 'application':
-                        textContent = '@';
-                        break;
-                    }
-                }
-
-                return (
-                  <g
-                    key={node.svgId}
-                    transform={`translate(${node.x}, ${node.y})`}
-                    data-ast-node-id={node.id} // For click handling
-                    onClick={(e) => handleSubtreeNodeClick(e, node.id, node.isGreedilyCollapsible)}
-                    className={cn(node.isGreedilyCollapsible && 'cursor-pointer')}
-                  >
-                    <rect
-                      width={node.width}
-                      height={node.height}
-                      rx={NODE_RX}
-                      ry={NODE_RX}
-                      fill={styles.fill}
-                      stroke={styles.stroke}
-                      strokeWidth={node.isHighlighted ? (2/scale) : (1.5/scale)}
-                    />
-                    <text
-                      x={node.width / 2}
-                      y={node.height / 2}
-                      textAnchor="middle"
-                      dominantBaseline="central"
-                      fill={styles.textFill}
-                      fontSize={NODE_FONT_SIZE}
-                      fontFamily="var(--font-geist-mono)"
-                      style={{ pointerEvents: 'none' }}
-                    >
-                      {textContent}
-                    </text>
-                  </g>
-                );
-              })}
+              {transitionFrame
+                ? transitionFrame.nodes.map(({ node, opacity }) => renderNode(node, opacity))
+                : svgRenderData.nodes.map(node => renderNode(node))}
             </g>
           </svg>
+        )}
+        {provenance && !displayError && (
+          <div className="absolute left-2 top-2 flex items-center gap-3 rounded-md border bg-card/90 px-2 py-1 text-xs pointer-events-none">
+            <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm border-2 border-ast-argument-copy" /> Argument copy</span>
+            <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm border-2 border-ast-renamed" /> Renamed (α)</span>
+          </div>
+        )}
+        {typing && !displayError && (
+          <div className="absolute left-2 right-2 bottom-2 rounded-md border bg-card/90 px-3 py-2 text-sm font-mono space-y-1 pointer-events-none">
+            {'error' in typing ? (
+              <p className="text-destructive break-words">{typing.error.message}</p>
+            ) : typeTexts && (
+              <>
+                <p className="break-words"><span className="text-muted-foreground">Term : </span>{typeTexts.term}</p>
+                {typeTexts.assumptions.length > 0 && (
+                  <p className="text-xs text-muted-foreground break-words">Assuming {typeTexts.assumptions.join(', ')}</p>
+                )}
+                {typeTexts.hovered && (
+                  <p className="break-words"><span className="text-muted-foreground">Hovered node : </span>{typeTexts.hovered}</p>
+                )}
+              </>
+            )}
+          </div>
         )}
          {svgRenderData && svgRenderData.nodes.length === 0 && !isLoading && !displayError && currentAST &&(
              <div className="flex flex-col items-center justify-center h-full text-muted-foreground p-4 text-center">
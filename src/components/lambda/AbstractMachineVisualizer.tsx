@@ -0,0 +1,169 @@
+"use client";
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLambda } from '@/contexts/LambdaContext';
+import { abstractMachines, runAbstractMachine, describeMachineState } from '@/lib/lambda-calculus/abstract-machines';
+import type { MachineKind } from '@/lib/lambda-calculus/abstract-machines';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Info, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const MAX_MACHINE_TRANSITIONS = 2000;
+
+// Steps through the Krivine or CEK machine on the current term of the history
+export function AbstractMachineVisualizer() {
+  const { currentAST } = useLambda();
+  const [machine, setMachine] = useState<MachineKind>('krivine');
+  const [transitionIndex, setTransitionIndex] = useState(0);
+
+  const trace = useMemo(
+    () => (currentAST ? runAbstractMachine(machine, currentAST, MAX_MACHINE_TRANSITIONS) : null),
+    [currentAST, machine]
+  );
+
+  useEffect(() => {
+    setTransitionIndex(0);
+  }, [trace]);
+
+  const lastIndex = trace ? trace.transitions.length - 1 : 0;
+  const index = Math.min(transitionIndex, lastIndex);
+  const transition = trace?.transitions[index];
+  const view = useMemo(() => (transition ? describeMachineState(transition.state) : null), [transition]);
+
+  return (
+    <Card className="h-full flex flex-col">
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="text-xl font-semibold">Abstract Machine</CardTitle>
+        <Select value={machine} onValueChange={(value) => setMachine(value as MachineKind)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {abstractMachines.map(info => (
+              <SelectItem key={info.id} value={info.id}>{info.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="flex-grow flex flex-col gap-3 min-h-0">
+        <p className="text-xs text-muted-foreground">
+          {abstractMachines.find(info => info.id === machine)?.description}
+        </p>
+
+        {!trace || !transition || !view ? (
+          <div className="flex flex-col items-center justify-center h-full text-muted-foreground p-4 text-center">
+            <Info className="w-10 h-10 mb-3" />
+            <p className="text-lg">Enter a lambda expression to run it on the machine.</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => setTransitionIndex(0)} disabled={index === 0} title="First state">
+                <ChevronsLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => setTransitionIndex(index - 1)} disabled={index === 0} title="Previous transition">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Slider
+                value={[index]}
+                min={0}
+                max={lastIndex}
+                step={1}
+                onValueChange={([value]) => setTransitionIndex(value)}
+                className="flex-grow"
+                disabled={lastIndex === 0}
+              />
+              <Button variant="outline" size="icon" onClick={() => setTransitionIndex(index + 1)} disabled={index === lastIndex} title="Next transition">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => setTransitionIndex(lastIndex)} disabled={index === lastIndex} title="Last state">
+                <ChevronsRight className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground whitespace-nowrap w-24 text-right">{index} / {lastIndex}</span>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-3 flex-grow min-h-0">
+              <div className="lg:col-span-2 flex flex-col gap-3 min-h-0">
+                <div className="rounded-md border p-3 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{view.controlLabel}</span>
+                    <Badge variant="secondary">{transition.rule}</Badge>
+                  </div>
+                  <p className="font-mono text-sm break-all">{view.control}</p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 flex-grow min-h-0">
+                  <div className="rounded-md border p-3 flex flex-col min-h-0">
+                    <p className="text-sm font-medium mb-1">Environment</p>
+                    <ScrollArea className="flex-grow">
+                      {view.environment.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Empty</p>
+                      ) : (
+                        <table className="w-full text-sm font-mono">
+                          <tbody>
+                            {view.environment.map(binding => (
+                              <tr key={binding.name} className="align-top">
+                                <td className="pr-2 whitespace-nowrap">{binding.name} ↦</td>
+                                <td className="break-all">{binding.value}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </ScrollArea>
+                  </div>
+                  <div className="rounded-md border p-3 flex flex-col min-h-0">
+                    <p className="text-sm font-medium mb-1">{view.stackLabel}</p>
+                    <ScrollArea className="flex-grow">
+                      {view.stack.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Empty</p>
+                      ) : (
+                        <ol className="text-sm font-mono space-y-1">
+                          {view.stack.map((entry, i) => (
+                            <li key={i} className="break-all">{entry}</li>
+                          ))}
+                        </ol>
+                      )}
+                    </ScrollArea>
+                  </div>
+                </div>
+
+                <p className="text-sm text-muted-foreground">
+                  {trace.halted
+                    ? `Halted after ${lastIndex} transition${lastIndex === 1 ? '' : 's'}: ${trace.halted}`
+                    : `Stopped after ${MAX_MACHINE_TRANSITIONS} transitions; the machine may not halt on this term.`}
+                </p>
+              </div>
+
+              <div className="rounded-md border p-3 flex flex-col min-h-0">
+                <p className="text-sm font-medium mb-1">Transitions</p>
+                <ScrollArea className="flex-grow">
+                  <ol className="text-sm space-y-0.5">
+                    {trace.transitions.map((step, i) => (
+                      <li key={i}>
+                        <button
+                          type="button"
+                          onClick={() => setTransitionIndex(i)}
+                          className={cn(
+                            'w-full text-left px-2 py-0.5 rounded hover:bg-muted',
+                            i === index && 'bg-primary/10 text-primary font-medium'
+                          )}
+                        >
+                          <span className="text-muted-foreground mr-2">{i}.</span>{step.rule}
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                </ScrollArea>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
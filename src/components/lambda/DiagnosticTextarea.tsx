@@ -0,0 +1,98 @@
+"use client";
+import React, { useRef } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import type { ParseDiagnostic } from '@/lib/lambda-calculus/parser';
+import { cn } from '@/lib/utils';
+
+const MAX_LISTED_DIAGNOSTICS = 5;
+
+interface DiagnosticTextareaProps extends React.ComponentProps<'textarea'> {
+  value: string;
+  diagnostics: ParseDiagnostic[];
+}
+
+// Splits the text into plain and flagged segments. Zero-width ranges (e.g. "unexpected end
+// of input") flag the following character, or a placeholder space at the end of a line.
+function buildSegments(text: string, diagnostics: ParseDiagnostic[]): { text: string; flagged: boolean }[] {
+  const ranges = diagnostics
+    .map(d => ({ start: Math.min(d.start, text.length), end: Math.min(Math.max(d.end, d.start + 1), text.length) }))
+    .sort((a, b) => a.start - b.start);
+
+  const segments: { text: string; flagged: boolean }[] = [];
+  let pos = 0;
+  for (const range of ranges) {
+    if (range.start < pos) continue; // Overlaps a range already flagged
+    if (range.start > pos) segments.push({ text: text.slice(pos, range.start), flagged: false });
+    const flaggedText = text.slice(range.start, range.end);
+    segments.push({ text: flaggedText && flaggedText !== '\n' ? flaggedText : ' ', flagged: true });
+    pos = Math.max(range.end, range.start);
+  }
+  if (pos < text.length) segments.push({ text: text.slice(pos), flagged: false });
+  return segments;
+}
+
+// Renders one diagnostic the way compilers do: the offending line with carets underneath.
+function caretSnippet(text: string, diagnostic: ParseDiagnostic): string {
+  const line = text.split('\n')[diagnostic.line - 1] ?? '';
+  const caretCount = Math.max(1, Math.min(diagnostic.end - diagnostic.start, line.length - diagnostic.column + 1));
+  return `${line}\n${' '.repeat(diagnostic.column - 1)}${'^'.repeat(caretCount)}`;
+}
+
+export function DiagnosticTextarea({ value, diagnostics, className, onScroll, ...textareaProps }: DiagnosticTextareaProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  const handleScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    if (overlayRef.current) {
+      overlayRef.current.scrollTop = event.currentTarget.scrollTop;
+      overlayRef.current.scrollLeft = event.currentTarget.scrollLeft;
+    }
+    onScroll?.(event);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Textarea
+          value={value}
+          onScroll={handleScroll}
+          aria-invalid={diagnostics.length > 0}
+          className={className}
+          {...textareaProps}
+        />
+        {diagnostics.length > 0 && (
+          // Mirrors the textarea's box and font so the underline lands on the right characters
+          <div
+            ref={overlayRef}
+            aria-hidden
+            className="absolute inset-0 overflow-hidden pointer-events-none rounded-md border border-transparent px-3 py-2 font-mono text-base md:text-sm whitespace-pre-wrap break-words text-transparent"
+          >
+            {buildSegments(value, diagnostics).map((segment, i) => (
+              <span
+                key={i}
+                className={cn(segment.flagged && "underline decoration-wavy decoration-destructive decoration-2 underline-offset-4 bg-destructive/20 rounded-sm")}
+              >
+                {segment.text}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      {diagnostics.slice(0, MAX_LISTED_DIAGNOSTICS).map((diagnostic, i) => (
+        <div key={i} className="text-sm text-destructive">
+          <p>
+            Line {diagnostic.line}, column {diagnostic.column}: {diagnostic.message}
+            {diagnostic.expected.length > 0 && (
+              <span className="text-muted-foreground"> Expected one of: {diagnostic.expected.join(', ')}.</span>
+            )}
+          </p>
+          <pre className="font-mono text-xs text-muted-foreground bg-muted rounded-sm px-2 py-1 mt-1 overflow-x-auto">
+            {caretSnippet(value, diagnostic)}
+          </pre>
+        </div>
+      ))}
+      {diagnostics.length > MAX_LISTED_DIAGNOSTICS && (
+        <p className="text-xs text-muted-foreground">…and {diagnostics.length - MAX_LISTED_DIAGNOSTICS} more.</p>
+      )}
+    </div>
+  );
+}
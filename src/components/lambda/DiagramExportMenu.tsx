@@ -0,0 +1,107 @@
+"use client";
+import React, { useState } from 'react';
+import { useLambda } from '@/contexts/LambdaContext';
+import type { HistoryStepKind } from '@/contexts/LambdaContext';
+import type { ASTNode, ASTNodeId } from '@/lib/lambda-calculus/types';
+import { diagramSvg, diagramPng, diagramGif, diagramWebm, downloadBlob, MAX_ANIMATION_FRAMES } from '@/lib/diagram-export';
+import type { DiagramImage } from '@/lib/diagram-export';
+import { playbackSpeedInfo } from '@/lib/playback';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Loader2 } from 'lucide-react';
+
+const PNG_SCALES = [1, 2, 4];
+
+type ExportFormat = 'svg' | 'png' | 'gif' | 'webm' | 'tikz';
+
+// The redex contracted from a step, drawn highlighted
+export interface ExportHighlight {
+  redexId: ASTNodeId;
+  kind: HistoryStepKind;
+}
+
+interface DiagramExportMenuProps {
+  fileName: string; // Start of the downloaded file names
+  drawStep: (ast: ASTNode, highlight?: ExportHighlight) => DiagramImage | null;
+  drawTikz?: (ast: ASTNode, highlight?: ExportHighlight) => string | null; // Offers a TikZ picture of the step
+}
+
+// Downloads the current step as SVG or PNG, or every recorded step as an animation. The frames of
+// an animation last as long as an auto-played step at the chosen playback speed.
+export function DiagramExportMenu({ fileName, drawStep, drawTikz }: DiagramExportMenuProps) {
+  const { currentAST, highlightedRedexId, highlightedStepKind, astHistory, historySteps, historyIndex, playbackSpeed } = useLambda();
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const recordedSteps = astHistory.filter((ast): ast is ASTNode => ast !== null);
+
+  const currentHighlight = (): ExportHighlight | undefined =>
+    highlightedRedexId && highlightedStepKind ? { redexId: highlightedRedexId, kind: highlightedStepKind } : undefined;
+
+  const currentImage = (): DiagramImage => {
+    const image = currentAST && drawStep(currentAST, currentHighlight());
+    if (!image) throw new Error("There is no diagram to export.");
+    return image;
+  };
+
+  const runExport = (format: ExportFormat, task: () => Promise<void>) => {
+    setExporting(format);
+    task()
+      .catch(error => {
+        toast({ title: "Export Failed", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+      })
+      .finally(() => setExporting(null));
+  };
+
+  const exportSvg = () => runExport('svg', async () => {
+    downloadBlob(diagramSvg(currentImage()), `${fileName}-step-${historyIndex}.svg`);
+  });
+
+  const exportPng = (scale: number) => runExport('png', async () => {
+    downloadBlob(await diagramPng(currentImage(), scale), `${fileName}-step-${historyIndex}@${scale}x.png`);
+  });
+
+  const exportTikz = (draw: NonNullable<DiagramExportMenuProps['drawTikz']>) => runExport('tikz', async () => {
+    const picture = currentAST && draw(currentAST, currentHighlight());
+    if (!picture) throw new Error("There is no diagram to export.");
+    downloadBlob(new Blob([picture + '\n'], { type: 'text/x-tex' }), `${fileName}-step-${historyIndex}.tex`);
+  });
+
+  const exportAnimation = (format: 'gif' | 'webm') => runExport(format, async () => {
+    const images = astHistory.map((ast, i) => ast && drawStep(ast, historySteps[i])).filter((image): image is DiagramImage => !!image);
+    if (images.length === 0) throw new Error("There is no diagram to export.");
+    const frameDelayMs = playbackSpeedInfo(playbackSpeed).stepIntervalMs;
+    if (format === 'webm') {
+      toast({ title: "Recording Video", description: `The video is recorded in real time; this takes about ${Math.ceil(images.length * frameDelayMs / 1000)} seconds.` });
+    }
+    const blob = format === 'gif' ? await diagramGif(images, frameDelayMs) : await diagramWebm(images, frameDelayMs);
+    downloadBlob(blob, `${fileName}-reduction.${format}`);
+  });
+
+  const canAnimate = recordedSteps.length > 1 && recordedSteps.length <= MAX_ANIMATION_FRAMES;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={!currentAST || exporting !== null} title="Export">
+          {exporting ? <Loader2 className="h-5 w-5 animate-spin" /> : <Download className="h-5 w-5" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Step {historyIndex}</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={exportSvg}>SVG</DropdownMenuItem>
+        {PNG_SCALES.map(scale => (
+          <DropdownMenuItem key={scale} onSelect={() => exportPng(scale)}>PNG {scale}×</DropdownMenuItem>
+        ))}
+        {drawTikz && <DropdownMenuItem onSelect={() => exportTikz(drawTikz)}>TikZ (.tex)</DropdownMenuItem>}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel title={recordedSteps.length > MAX_ANIMATION_FRAMES ? `Animations are limited to ${MAX_ANIMATION_FRAMES} steps` : undefined}>
+          Whole reduction ({recordedSteps.length - 1} step{recordedSteps.length === 2 ? '' : 's'})
+        </DropdownMenuLabel>
+        <DropdownMenuItem disabled={!canAnimate} onSelect={() => exportAnimation('gif')}>Animated GIF</DropdownMenuItem>
+        <DropdownMenuItem disabled={!canAnimate} onSelect={() => exportAnimation('webm')}>WebM video</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
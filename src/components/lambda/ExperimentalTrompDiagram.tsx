@@ -4,7 +4,11 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useLambda } from '@/contexts/LambdaContext';
 import { generateTrompDiagramData, TrompDiagramRenderData } from '@/lib/lambda-calculus/tromp-diagram/renderer';
 import type { SvgElementData } from '@/lib/lambda-calculus/tromp-diagram/tromp-types';
-import type { ASTNodeId } from '@/lib/lambda-calculus/types';
+import type { ASTNode, ASTNodeId } from '@/lib/lambda-calculus/types';
+import { trompDiagramImage } from '@/lib/diagram-export';
+import type { DiagramImage } from '@/lib/diagram-export';
+import { DiagramExportMenu } from '@/components/lambda/DiagramExportMenu';
+import type { ExportHighlight } from '@/components/lambda/DiagramExportMenu';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -44,7 +48,22 @@ function getPrimitiveColor(primitiveName?: string): string | undefined {
 const HIGHLIGHT_COLOR = "hsl(var(--ast-highlight-bg))";
 const SECONDARY_HIGHLIGHT_COLOR = "hsl(var(--ring))"; 
 const DEFAULT_STROKE_COLOR = "hsl(var(--foreground))";
+const EXPORT_GRID_SCALE = 12; // Pixels per grid unit in exported images
 
+function elementStroke(el: SvgElementData, autoScale: number): { stroke: string; strokeWidth: number } {
+  const baseStrokeW = Math.max(0.02, 1 / autoScale);
+  const highlightedStrokeW = Math.max(0.04, 2 / autoScale);
+  if (el.isHighlighted) return { stroke: HIGHLIGHT_COLOR, strokeWidth: highlightedStrokeW };
+  if (el.isSecondaryHighlight) return { stroke: SECONDARY_HIGHLIGHT_COLOR, strokeWidth: highlightedStrokeW * 0.8 };
+  return { stroke: getPrimitiveColor(el.sourcePrimitiveName) || DEFAULT_STROKE_COLOR, strokeWidth: baseStrokeW };
+}
+
+// A step's diagram for export, without the animations
+function experimentalStepImage(ast: ASTNode, highlight?: ExportHighlight): DiagramImage | null {
+  const data = generateTrompDiagramData(ast, EXPORT_GRID_SCALE, highlight?.redexId);
+  if (!data || data.svgElements.length === 0) return null;
+  return trompDiagramImage(data, element => elementStroke(element, EXPORT_GRID_SCALE));
+}
 
 export function ExperimentalTrompDiagram() {
   const { currentAST, isLoading: contextIsLoading, error: contextError, highlightedRedexId } = useLambda();
@@ -122,27 +141,12 @@ export function ExperimentalTrompDiagram() {
       return { argumentElementsJsx: [], otherElementsJsx: [] };
     }
 
-    const baseStrokeW = Math.max(0.02, 1 / autoScale);
-    const highlightedStrokeW = Math.max(0.04, 2 / autoScale);
-
     const renderElementToJsx = (el: SvgElementData) => {
-      let strokeColor = getPrimitiveColor(el.sourcePrimitiveName) || DEFAULT_STROKE_COLOR;
-      let currentStrokeWidth = baseStrokeW;
-      let animationClass = "";
-
-      if (el.isHighlighted) {
-        strokeColor = HIGHLIGHT_COLOR;
-        currentStrokeWidth = highlightedStrokeW;
-        animationClass = "animate-ubarFocus"; // Apply focus animation to primary highlighted U-bar
-      } else if (el.isSecondaryHighlight) {
-        strokeColor = SECONDARY_HIGHLIGHT_COLOR;
-        currentStrokeWidth = highlightedStrokeW * 0.8;
-        // The argument block as a whole gets 'animate-argumentPopIn'
-      }
+      // The primary highlighted U-bar gets a focus animation; the argument block as a whole gets 'animate-argumentPopIn'
+      const animationClass = el.isHighlighted ? "animate-ubarFocus" : "";
 
       const commonProps = {
-        stroke: strokeColor,
-        strokeWidth: currentStrokeWidth,
+        ...elementStroke(el, autoScale),
         fill: "none",
         className: animationClass,
       };
@@ -200,6 +204,7 @@ export function ExperimentalTrompDiagram() {
           <Beaker className="mr-2 h-5 w-5 text-primary" />
           <CardTitle className="text-xl font-semibold">Experimental Tromp Diagram</CardTitle>
         </div>
+        <DiagramExportMenu fileName="experimental-tromp-diagram" drawStep={experimentalStepImage} />
       </CardHeader>
       <CardContent ref={containerRef} className="flex-grow overflow-hidden p-0"> 
         <ScrollArea className="h-full w-full" viewportClassName="flex items-center justify-center">
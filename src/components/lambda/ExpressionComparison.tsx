@@ -0,0 +1,205 @@
+"use client";
+import React, { useEffect, useRef, useState } from 'react';
+import { useLambda } from '@/contexts/LambdaContext';
+import { parse } from '@/lib/lambda-calculus/parser';
+import { print } from '@/lib/lambda-calculus/printer';
+import type { ASTNode } from '@/lib/lambda-calculus/types';
+import type { FullReductionRequest, FullReductionResponse, FullReductionResult } from '@/lib/lambda-calculus/full-reduction';
+import { decideEquivalence, equivalenceVerdicts } from '@/lib/lambda-calculus/equivalence';
+import type { EquivalenceVerdict } from '@/lib/lambda-calculus/equivalence';
+import { StaticTrompDiagram } from '@/components/lambda/StaticTrompDiagram';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Scale, Square, CornerDownLeft } from 'lucide-react';
+
+const DIAGRAM_WIDTH = 320;
+const DIAGRAM_HEIGHT = 260;
+
+type Side = 'left' | 'right';
+
+interface SideResult {
+  input: ASTNode | null;
+  result: FullReductionResult | null;
+  error: string | null; // Parse or evaluation error
+}
+
+interface Comparison {
+  left: SideResult;
+  right: SideResult;
+  verdict: EquivalenceVerdict | null; // Null when either side failed to parse
+}
+
+const OUTCOME_NOTES: Record<FullReductionResult['outcome'], string> = {
+  'normal-form': 'normal form',
+  'loop': 'no normal form (the reduction loops)',
+  'max-steps': 'step limit reached',
+  'timeout': 'time limit reached',
+  'max-size': 'size limit reached',
+};
+
+// Decides whether two expressions are equal by normalizing both, each in its own Web Worker.
+// Normal order is used whatever the selected strategy, since it finds a normal form whenever one exists.
+export function ExpressionComparison() {
+  const { rawExpression, customExpressions, reductionBudget, evaluationEngine, etaReduction, dataEncoding, printOptions } = useLambda();
+  const [expressions, setExpressions] = useState<Record<Side, string>>({ left: '_PLUS _2 _2', right: '_MULT _2 _2' });
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const workersRef = useRef<Worker[]>([]);
+
+  const stopWorkers = () => {
+    workersRef.current.forEach(worker => worker.terminate());
+    workersRef.current = [];
+  };
+
+  useEffect(() => stopWorkers, []);
+
+  const normalizeInWorker = (ast: ASTNode): Promise<FullReductionResult> => new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../../workers/full-reduction.worker.ts', import.meta.url));
+    workersRef.current.push(worker);
+    worker.onmessage = (event: MessageEvent<FullReductionResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') return;
+      worker.terminate();
+      if (response.type === 'error') reject(new Error(response.message));
+      else resolve(response.result);
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      worker.terminate();
+      reject(new Error(event.message || "The reduction worker failed."));
+    };
+    const request: FullReductionRequest = {
+      type: 'start',
+      ast,
+      strategy: 'normal',
+      etaReduction,
+      engine: evaluationEngine,
+      crossCheck: false,
+      budget: reductionBudget,
+    };
+    worker.postMessage(request);
+  });
+
+  const evaluateSide = async (text: string): Promise<SideResult> => {
+    let input: ASTNode;
+    try {
+      input = parse(text, customExpressions, dataEncoding);
+    } catch (e) {
+      return { input: null, result: null, error: e instanceof Error ? e.message : String(e) };
+    }
+    try {
+      return { input, result: await normalizeInWorker(input), error: null };
+    } catch (e) {
+      return { input, result: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  };
+
+  const handleCompare = () => {
+    stopWorkers();
+    setIsComparing(true);
+    setComparison(null);
+    const workers = workersRef.current;
+    Promise.all([evaluateSide(expressions.left), evaluateSide(expressions.right)]).then(([left, right]) => {
+      if (workersRef.current !== workers) return; // Cancelled or superseded
+      workersRef.current = [];
+      // A side whose evaluation failed has no result, which makes the verdict unknown
+      const verdict = left.input && right.input ? decideEquivalence(left.input, right.input, left.result, right.result) : null;
+      setComparison({ left, right, verdict });
+      setIsComparing(false);
+    });
+  };
+
+  const handleCancel = () => {
+    stopWorkers(); // Also replaces the worker list, so the pending comparison is dropped
+    setIsComparing(false);
+  };
+
+  const verdictInfo = comparison?.verdict ? equivalenceVerdicts.find(info => info.id === comparison.verdict) : undefined;
+
+  const renderSide = (side: Side) => {
+    const sideResult = comparison?.[side];
+    return (
+      <div className="space-y-2 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor={`compare-${side}`} className="text-base">{side === 'left' ? 'Left' : 'Right'} Expression</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-muted-foreground"
+            onClick={() => setExpressions(prev => ({ ...prev, [side]: rawExpression }))}
+            title="Copy the expression from the input panel"
+          >
+            <CornerDownLeft className="mr-1 h-3.5 w-3.5" /> Use current
+          </Button>
+        </div>
+        <Textarea
+          id={`compare-${side}`}
+          value={expressions[side]}
+          onChange={(e) => setExpressions(prev => ({ ...prev, [side]: e.target.value }))}
+          className="font-mono text-sm min-h-[64px] bg-input"
+        />
+        {sideResult?.error && <p className="text-sm text-destructive">{sideResult.error}</p>}
+        {sideResult?.result && (
+          <>
+            <p className="text-xs text-muted-foreground">
+              {sideResult.result.steps} step{sideResult.result.steps === 1 ? '' : 's'}: {OUTCOME_NOTES[sideResult.result.outcome]}
+            </p>
+            <StaticTrompDiagram
+              ast={sideResult.result.ast}
+              termString={print(sideResult.result.ast, 'top', printOptions)}
+              displayName={sideResult.result.outcome === 'normal-form' ? 'Normal form' : 'Last term reached'}
+              targetWidth={DIAGRAM_WIDTH}
+              maxHeight={DIAGRAM_HEIGHT}
+              className="break-all"
+            />
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="h-full flex flex-col">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-xl font-semibold">Compare Expressions</CardTitle>
+          <CardDescription>
+            Both expressions are parsed with your custom terms and normalized in normal order{etaReduction ? ' with η-reduction' : ''}, within the full reduction budget.
+          </CardDescription>
+        </div>
+        {isComparing ? (
+          <Button variant="outline" onClick={handleCancel}>
+            <Square className="mr-2 h-4 w-4" /> Cancel
+          </Button>
+        ) : (
+          <Button onClick={handleCompare} disabled={!expressions.left.trim() || !expressions.right.trim()}>
+            <Scale className="mr-2 h-4 w-4" /> Compare
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="flex-grow min-h-0 p-0">
+        <ScrollArea className="h-full">
+          <div className="space-y-4 px-6 pb-6">
+            {isComparing && <p className="text-sm text-muted-foreground">Normalizing both expressions...</p>}
+            {verdictInfo && (
+              <div className="flex items-center gap-2 rounded-md border p-3">
+                <Badge variant={comparison?.verdict === 'different-normal-forms' ? 'destructive' : comparison?.verdict === 'unknown' ? 'outline' : 'default'}>
+                  {etaReduction && comparison?.verdict === 'beta-equivalent' ? 'βη-equivalent' : verdictInfo.label}
+                </Badge>
+                <span className="text-sm">{verdictInfo.description}</span>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderSide('left')}
+              {renderSide('right')}
+            </div>
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
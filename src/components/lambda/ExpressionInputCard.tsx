@@ -7,10 +7,24 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
-import { Play, RotateCcw, Sigma, Save, Zap } from 'lucide-react'; 
+import { Play, RotateCcw, Sigma, Save, Zap, Link2, Settings2, Square } from 'lucide-react'; 
 import { ScrollArea } from '../ui/scroll-area';
 import { NamedExpressionsPanel } from './NamedExpressionsPanel';
 import { Separator } from '../ui/separator';
+import { DiagnosticTextarea } from './DiagnosticTextarea';
+import { TermLibraryTransfer } from './TermLibraryTransfer';
+import { LatexExportMenu } from './LatexExportMenu';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { evaluationEngines, canCrossCheck } from '@/lib/lambda-calculus/full-reduction';
+import type { ReductionBudget, EvaluationEngine } from '@/lib/lambda-calculus/full-reduction';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { reductionStrategies } from '@/lib/lambda-calculus/reducer';
+import type { ReductionStrategy } from '@/lib/lambda-calculus/reducer';
+import { dataEncodings } from '@/lib/lambda-calculus/encodings';
+import type { DataEncoding } from '@/lib/lambda-calculus/encodings';
 
 export function ExpressionInputCard() {
   const {
@@ -23,10 +37,29 @@ export function ExpressionInputCard() {
     fullyReducedString,
     isLoading,
     error,
+    errorDiagnostics,
     isReducible,
     resetState,
     addCustomExpression,
+    reductionStrategy,
+    setReductionStrategy,
+    etaReduction,
+    setEtaReduction,
+    dataEncoding,
+    setDataEncoding,
+    printOptions,
+    setPrintOptions,
+    getPermalink,
+    reductionBudget,
+    setReductionBudget,
+    fullReductionProgress,
+    cancelFullReduction,
+    evaluationEngine,
+    setEvaluationEngine,
+    crossCheckEngines,
+    setCrossCheckEngines,
   } = useLambda();
+  const { toast } = useToast();
 
   const [customTermName, setCustomTermName] = useState('');
   const [customTermLambda, setCustomTermLambda] = useState('');
@@ -47,6 +80,26 @@ export function ExpressionInputCard() {
     });
   };
 
+  const activeStrategyInfo = reductionStrategies.find(s => s.id === reductionStrategy);
+  const activeEncodingInfo = dataEncodings.find(encoding => encoding.id === dataEncoding);
+  const activeEngineInfo = evaluationEngines.find(e => e.id === evaluationEngine);
+  const crossCheckAvailable = canCrossCheck(evaluationEngine, reductionStrategy);
+
+  const handleCopyPermalink = () => {
+    getPermalink()
+      .then(link => navigator.clipboard.writeText(link))
+      .then(() => toast({ title: "Link Copied", description: "The link restores this expression, its custom terms, the strategy, the tab and the current step." }))
+      .catch(() => toast({ title: "Copy Failed", description: "Could not copy the link. The address bar holds the same link.", variant: "destructive" }));
+  };
+
+  // Budget fields are edited in their display units; non-positive or non-numeric input is ignored
+  const handleBudgetChange = (field: keyof ReductionBudget, value: string, unit: number = 1) => {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      setReductionBudget({ [field]: Math.round(parsed * unit) });
+    }
+  };
+
   const handleSaveCustomTerm = () => {
     if (addCustomExpression(customTermName, customTermLambda)) {
       setCustomTermName('');
@@ -60,21 +113,25 @@ export function ExpressionInputCard() {
         <div className="flex items-center space-x-2">
           <Sigma className="h-8 w-8 text-primary" />
           <CardTitle className="text-2xl font-semibold">LambdaVis</CardTitle>
+          <Button onClick={handleCopyPermalink} variant="ghost" size="sm" className="ml-auto" title="Copy a link to the current state">
+            <Link2 className="mr-2 h-4 w-4" /> Share
+          </Button>
         </div>
-        <CardDescription>Enter a Lambda Calculus expression (e.g., `L`, `\`, `_ID`, `_TRUE`, `_2`) and evaluate it.</CardDescription>
+        <CardDescription>Enter a Lambda Calculus expression (e.g., `L`, `\`, `_ID`, `_TRUE`, `_2`) and evaluate it. Definitions like `let NAME = term;` or `NAME := term` may precede it.</CardDescription>
       </CardHeader>
       <CardContent className="flex-grow space-y-4 flex flex-col overflow-y-auto">
         <div className="space-y-2">
           <Label htmlFor="lambda-expression" className="text-base">Expression</Label>
-          <Textarea
+          <DiagnosticTextarea
             id="lambda-expression"
             value={rawExpression}
+            diagnostics={errorDiagnostics}
             onChange={handleInputChange}
-            placeholder="e.g., (Lx.x) (Ly.y) or _ID _TRUE or _PLUS _2 _1"
+            placeholder={"e.g., (Lx.x) (Ly.y) or _ID _TRUE or _PLUS _2 _1\n\n-- or a script:\nlet TWICE = λf.λx.f (f x);\n_TWICE _SUCC _0"}
             className="font-mono text-base min-h-[80px] bg-input text-foreground placeholder:text-muted-foreground focus:ring-primary"
             rows={3}
           />
-          {error && <p className="text-sm text-destructive mt-1">{error}</p>}
+          {error && errorDiagnostics.length === 0 && <p className="text-sm text-destructive mt-1">{error}</p>}
         </div>
 
         <div className="space-y-2">
@@ -82,8 +139,65 @@ export function ExpressionInputCard() {
           <NamedExpressionsPanel onInsert={handleInsertNamedExpression} />
         </div>
         
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="reduction-strategy" className="text-base">Reduction Strategy</Label>
+            <div className="flex items-center gap-2">
+              <Switch id="eta-reduction" checked={etaReduction} onCheckedChange={setEtaReduction} />
+              <Label htmlFor="eta-reduction" className="text-xs text-muted-foreground font-normal" title="Also contract η-redexes λx.M x → M (x not free in M) in strategies that reduce under lambdas">η-reduction</Label>
+            </div>
+          </div>
+          <Select value={reductionStrategy} onValueChange={(value) => setReductionStrategy(value as ReductionStrategy)}>
+            <SelectTrigger id="reduction-strategy" className="bg-input text-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {reductionStrategies.map(strategy => (
+                <SelectItem key={strategy.id} value={strategy.id}>{strategy.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {activeStrategyInfo && <p className="text-xs text-muted-foreground">{activeStrategyInfo.description}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="data-encoding" className="text-base">Data Encoding</Label>
+          <Select value={dataEncoding} onValueChange={(value) => setDataEncoding(value as DataEncoding)}>
+            <SelectTrigger id="data-encoding" className="bg-input text-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {dataEncodings.map(encoding => (
+                <SelectItem key={encoding.id} value={encoding.id}>{encoding.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {activeEncodingInfo && <p className="text-xs text-muted-foreground">{activeEncodingInfo.description}</p>}
+        </div>
+
         <div className="space-y-2 mt-4">
-          <Label htmlFor="reduced-expression" className="text-base">Current Form (Step-by-Step)</Label>
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="reduced-expression" className="text-base">Current Form (Step-by-Step)</Label>
+            <div className="flex items-center gap-3">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="compact-lambdas"
+                  checked={!!printOptions.compactLambdas}
+                  onCheckedChange={(checked) => setPrintOptions({ compactLambdas: checked })}
+                  disabled={printOptions.notation === 'de-bruijn'}
+                />
+                <Label htmlFor="compact-lambdas" className="text-xs text-muted-foreground font-normal">Compact λx y.M</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="de-bruijn-notation"
+                  checked={printOptions.notation === 'de-bruijn'}
+                  onCheckedChange={(checked) => setPrintOptions({ notation: checked ? 'de-bruijn' : 'named' })}
+                />
+                <Label htmlFor="de-bruijn-notation" className="text-xs text-muted-foreground font-normal">De Bruijn λ λ 2</Label>
+              </div>
+            </div>
+          </div>
           <ScrollArea className="border rounded-md bg-input p-1 min-h-[60px] max-h-[120px]">
             <pre id="reduced-expression" className="p-3 font-mono text-sm text-foreground whitespace-pre-wrap break-all">
               {isLoading && !reducedExpressionString && !fullyReducedString ? "Processing..." : reducedExpressionString}
@@ -92,7 +206,10 @@ export function ExpressionInputCard() {
         </div>
 
         <div className="space-y-2 mt-2">
-          <Label htmlFor="prettified-expression" className="text-base">Prettified Form</Label>
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="prettified-expression" className="text-base">Prettified Form</Label>
+            <LatexExportMenu />
+          </div>
           <ScrollArea className="border rounded-md bg-input p-1 min-h-[60px] max-h-[120px]">
             <pre id="prettified-expression" className="p-3 font-mono text-sm text-foreground whitespace-pre-wrap break-all">
               {prettifiedExpressionString || (isLoading && !error ? "Processing..." : (error ? "Error in expression." : "Enter an expression."))}
@@ -101,12 +218,65 @@ export function ExpressionInputCard() {
         </div>
 
         <div className="space-y-2 mt-auto pt-2"> 
-          <Label htmlFor="fully-reduced-expression" className="text-base">Normal Form (Full Reduction)</Label>
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="fully-reduced-expression" className="text-base">Normal Form (Full Reduction)</Label>
+            <div className="flex items-center gap-1">
+              <Select value={evaluationEngine} onValueChange={(value) => setEvaluationEngine(value as EvaluationEngine)}>
+                <SelectTrigger className="h-7 w-[130px] text-xs" title={activeEngineInfo?.description} aria-label="Evaluation engine">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {evaluationEngines.map(engine => (
+                    <SelectItem key={engine.id} value={engine.id}>{engine.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-7 text-xs text-muted-foreground" title="Limits for full reduction">
+                    <Settings2 className="mr-1 h-3.5 w-3.5" /> Budget
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64 space-y-3" align="end">
+                  <p className="text-sm font-medium">Full Reduction Budget</p>
+                  <div className="space-y-1">
+                    <Label htmlFor="budget-steps" className="text-xs">Max steps</Label>
+                    <Input id="budget-steps" type="number" min={1} defaultValue={reductionBudget.maxSteps} onChange={(e) => handleBudgetChange('maxSteps', e.target.value)} className="h-8" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="budget-time" className="text-xs">Time limit (seconds)</Label>
+                    <Input id="budget-time" type="number" min={0.1} step={0.1} defaultValue={reductionBudget.maxMillis / 1000} onChange={(e) => handleBudgetChange('maxMillis', e.target.value, 1000)} className="h-8" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="budget-size" className="text-xs">Max term size (AST nodes)</Label>
+                    <Input id="budget-size" type="number" min={1} defaultValue={reductionBudget.maxSize} onChange={(e) => handleBudgetChange('maxSize', e.target.value)} className="h-8" />
+                  </div>
+                  <Separator />
+                  <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor="cross-check-engines" className="text-xs font-normal">Cross-check with the other engine</Label>
+                    <Switch
+                      id="cross-check-engines"
+                      checked={crossCheckEngines && crossCheckAvailable}
+                      onCheckedChange={setCrossCheckEngines}
+                      disabled={!crossCheckAvailable}
+                      title={crossCheckAvailable ? undefined : `${activeStrategyInfo?.label ?? 'This strategy'} stops before the normal form, so its result cannot be compared with the sharing evaluator's.`}
+                    />
+                  </div>
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+          {activeEngineInfo && <p className="text-xs text-muted-foreground">{activeEngineInfo.description}</p>}
           <ScrollArea className="border rounded-md bg-muted p-1 min-h-[60px] max-h-[120px]">
             <pre id="fully-reduced-expression" className="p-3 font-mono text-sm text-muted-foreground whitespace-pre-wrap break-all">
-              {isLoading && fullyReducedString === "Reducing..." ? "Reducing..." : (fullyReducedString || "Not yet fully reduced.")}
+              {fullReductionProgress
+                ? `Reducing... step ${fullReductionProgress.steps}, term size ${fullReductionProgress.size} nodes, ${(fullReductionProgress.elapsedMillis / 1000).toFixed(1)} s`
+                : (fullyReducedString || "Not yet fully reduced.")}
             </pre>
           </ScrollArea>
+          {fullReductionProgress && (
+            <Progress value={Math.min(100, (fullReductionProgress.steps / reductionBudget.maxSteps) * 100)} className="h-1.5" />
+          )}
         </div>
 
         <Separator className="my-4" />
@@ -134,6 +304,7 @@ export function ExpressionInputCard() {
               <Save className="mr-2 h-4 w-4" /> Save Custom Term
             </Button>
           </div>
+          <TermLibraryTransfer />
         </div>
 
       </CardContent>
@@ -145,9 +316,15 @@ export function ExpressionInputCard() {
           <Button onClick={performReductionStep} disabled={isLoading || !isReducible || !!error} className="w-full sm:w-auto">
             <Play className="mr-2 h-4 w-4" /> Reduce Step
           </Button>
-          <Button onClick={reduceToNormalForm} disabled={isLoading || !!error} className="w-full sm:w-auto" variant="secondary">
-            <Zap className="mr-2 h-4 w-4" /> Reduce to Normal Form
-          </Button>
+          {fullReductionProgress ? (
+            <Button onClick={cancelFullReduction} className="w-full sm:w-auto" variant="destructive">
+              <Square className="mr-2 h-4 w-4" /> Cancel
+            </Button>
+          ) : (
+            <Button onClick={reduceToNormalForm} disabled={isLoading || !!error} className="w-full sm:w-auto" variant="secondary">
+              <Zap className="mr-2 h-4 w-4" /> Reduce to Normal Form
+            </Button>
+          )}
         </div>
       </CardFooter>
     </Card>
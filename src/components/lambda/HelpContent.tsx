@@ -1,157 +1,10 @@
 
 "use client";
 
-import React, { useMemo } from 'react';
+import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { parse } from '@/lib/lambda-calculus/parser';
-import { generateTrompDiagramData, type TrompDiagramRenderData } from '@/lib/lambda-calculus/tromp-diagram/renderer';
-import type { SvgElementData } from '@/lib/lambda-calculus/tromp-diagram/tromp-types';
-import type { ASTNode } from '@/lib/lambda-calculus/types';
-import { predefinedExpressions } from '@/lib/lambda-calculus/predefined'; // For parser context
-import { cn } from "@/lib/utils";
-
-// Primitive colors - consistent with TrompDiagramVisualizer
-const primitiveColors: Record<string, string> = {
-  "_0": "hsl(var(--ast-variable-bg))",
-  "_1": "hsl(var(--ast-variable-bg))",
-  "_2": "hsl(var(--ast-variable-bg))",
-  "_3": "hsl(var(--ast-variable-bg))",
-  "_TRUE": "hsl(var(--ast-lambda-fg))",
-  "_FALSE": "hsl(var(--ast-application-fg))",
-  "_NOT": "hsl(var(--ring))",
-  "_AND": "hsl(var(--secondary))",
-  "_OR": "hsl(var(--secondary-foreground))",
-  "_SUCC": "hsl(var(--ast-lambda-bg))",
-  "_PLUS": "hsl(var(--ast-application-bg))",
-  "_MULT": "hsl(var(--destructive))",
-  "_POW": "hsl(var(--primary))",
-  "_ID": "hsl(var(--muted-foreground))",
-  "_Y-COMB": "hsl(var(--accent))",
-};
-
-// getPrimitiveColor function - consistent with TrompDiagramVisualizer
-function getPrimitiveColor(primitiveName?: string): string | undefined {
-    if (!primitiveName) return undefined;
-    if (primitiveColors[primitiveName]) {
-        return primitiveColors[primitiveName];
-    }
-    if (/^_\d+$/.test(primitiveName)) { // For _4, _5 etc.
-        return primitiveColors["_0"] || "hsl(var(--ast-variable-bg))";
-    }
-    return undefined;
-}
-
-interface StaticTrompDiagramProps {
-  termString: string;
-  displayName: string;
-  targetWidth: number;
-  maxHeight: number;
-  className?: string;
-}
-
-const StaticTrompDiagram: React.FC<StaticTrompDiagramProps> = ({
-  termString,
-  displayName,
-  targetWidth,
-  maxHeight,
-  className,
-}) => {
-  const diagramData: TrompDiagramRenderData | null = useMemo(() => {
-    try {
-      // Pass predefined expressions as context for parsing _ID, _0 etc.
-      const ast: ASTNode = parse(termString, predefinedExpressions);
-
-      // First pass to get grid units (scale = 1 for this)
-      const initialDiagramData = generateTrompDiagramData(ast, 1);
-      if (!initialDiagramData || initialDiagramData.widthInGridUnits <= 0 || initialDiagramData.heightInGridUnits <= 0) {
-        return null;
-      }
-
-      const { widthInGridUnits, heightInGridUnits } = initialDiagramData;
-
-      const paddingFactor = 0.85; // Use 85% of available space
-      const availableWidth = targetWidth * paddingFactor;
-      const availableHeight = maxHeight * paddingFactor;
-
-      let calculatedScale = 10; // Default scale
-      if (widthInGridUnits > 0 && heightInGridUnits > 0) {
-          const scaleX = availableWidth / widthInGridUnits;
-          const scaleY = availableHeight / heightInGridUnits;
-          calculatedScale = Math.max(1, Math.min(scaleX, scaleY));
-      }
-
-      return generateTrompDiagramData(ast, calculatedScale);
-    } catch (error) {
-      console.error(`Error generating Tromp diagram for ${displayName}:`, error);
-      return null;
-    }
-  }, [termString, displayName, targetWidth, maxHeight]);
-
-  if (!diagramData) {
-    return (
-      <div className={cn("flex items-center justify-center border rounded-md bg-muted text-destructive text-xs p-2", className)} style={{width: targetWidth, height: maxHeight / 2}}>
-        Error generating diagram for {displayName}.
-      </div>
-    );
-  }
-
-  const strokeW = Math.max(0.1, 1 / (diagramData.actualWidthPx / diagramData.widthInGridUnits)); // Adjusted stroke width
-
-  return (
-    <div className={cn("flex flex-col items-center border rounded-md p-2 bg-background", className)}>
-      <p className="font-medium text-sm mb-1 text-center">{displayName}</p>
-      <svg
-        width={diagramData.actualWidthPx}
-        height={diagramData.actualHeightPx}
-        viewBox={diagramData.viewBox}
-        xmlns="http://www.w3.org/2000/svg"
-        preserveAspectRatio="xMidYMid meet"
-        className="border border-dashed border-border"
-      >
-        <g transform="translate(0.5 0.5)">
-          {diagramData.svgElements.map((el: SvgElementData) => {
-            const color = getPrimitiveColor(el.sourcePrimitiveName) || "hsl(var(--foreground))";
-            const commonProps = {
-              stroke: color,
-              strokeWidth: strokeW,
-              fill: "none",
-            };
-            if (el.type === 'line') {
-              return (
-                <line
-                  key={el.key}
-                  x1={el.x1}
-                  y1={el.y1}
-                  x2={el.x2}
-                  y2={el.y2}
-                  {...commonProps}
-                >
-                  {el.title && <title>{el.title} (Primitive: {el.sourcePrimitiveName || 'N/A'})</title>}
-                </line>
-              );
-            } else if (el.type === 'polyline') {
-              return (
-                <polyline
-                  key={el.key}
-                  points={el.points}
-                  {...commonProps}
-                >
-                   {el.sourcePrimitiveName && <title>Primitive: {el.sourcePrimitiveName}</title>}
-                </polyline>
-              );
-            }
-            return null;
-          })}
-        </g>
-      </svg>
-       <p className="text-xs text-muted-foreground text-center mt-1">
-        {termString}
-      </p>
-    </div>
-  );
-};
-
+import { StaticTrompDiagram } from '@/components/lambda/StaticTrompDiagram';
 
 export function HelpContent() {
   return (
@@ -184,6 +37,7 @@ export function HelpContent() {
               <ul className="list-disc list-inside space-y-1 pl-4">
                 <li><strong>Variable:</strong> A name, like <code>x</code>, <code>y</code>, <code>f</code>.</li>
                 <li><strong>Abstraction (Function Definition):</strong> <code>λx.M</code> (or <code>Lx.M</code>, <code>\\x.M</code> in this tool). This defines a function that takes an argument <code>x</code> and its body is the expression <code>M</code>. <code>x</code> is a bound variable within <code>M</code>.</li>
+                <li><strong>Curried Shorthand:</strong> <code>λx y z.M</code> (or <code>\\x y. M</code>) is short for <code>λx.λy.λz.M</code>. Use the "Compact" switch next to the current form to display nested lambdas this way.</li>
                 <li><strong>Application (Function Call):</strong> <code>M N</code>. This applies the function <code>M</code> to the argument <code>N</code>.</li>
               </ul>
             </div>
@@ -259,6 +113,7 @@ export function HelpContent() {
                 </li>
               </ul>
               <p className="mt-2">Data generally flows from top-to-bottom and left-to-right. Shared sub-expressions are naturally represented by lines converging.</p>
+              <p className="mt-2">With "Animate" on, each step forward is animated: the redex's lambda bar and U-bar fade out, copies of the argument slide from the argument into the positions of the substituted variable, and an argument that is not used dissolves.</p>
             </div>
             <div>
               <h4 className="font-semibold text-lg mb-1">Example Diagrams:</h4>
@@ -278,20 +133,31 @@ export function HelpContent() {
           </CardHeader>
           <CardContent className="space-y-3">
             <ul className="list-disc list-inside space-y-2 pl-4">
-              <li><strong>Expression Input:</strong> Type lambda expressions. Use <code>λ</code>, capital <code>L</code>, or <code>\\</code> for the lambda symbol. Spaces are often optional, e.g., <code>(Lx.x)</code> works.</li>
-              <li><strong>Predefined & Custom Terms:</strong> Use <code>_NAME</code> (e.g., <code>_ID</code>, <code>_TRUE</code>, <code>_MY_CUSTOM_TERM</code>) to insert known terms. Click buttons in the panel to insert them.</li>
+              <li><strong>Expression Input:</strong> Type lambda expressions. Use <code>λ</code>, capital <code>L</code>, or <code>\\</code> for the lambda symbol. Spaces are often optional, e.g., <code>(Lx.x)</code> works. Syntax errors and unknown characters (such as <code>+</code>) are underlined in the input and listed below it with their line and column. Input made only of <code>0</code>s and <code>1</code>s is decoded as BLC, e.g. <code>0010</code> is <code>λx.x</code>.</li>
+              <li><strong>Predefined & Custom Terms:</strong> Use <code>_NAME</code> (e.g., <code>_ID</code>, <code>_TRUE</code>, <code>_MY_CUSTOM_TERM</code>) to insert known terms. Click buttons in the panel to insert them. Besides booleans and numerals the library has pairs (<code>_PAIR</code>, <code>_FST</code>, <code>_SND</code>), lists (<code>_NIL</code>, <code>_CONS</code>, <code>_HEAD</code>, <code>_TAIL</code>, <code>_ISNIL</code>), <code>_PRED</code> and <code>_SUB</code>, comparisons (<code>_ISZERO</code>, <code>_LEQ</code>, <code>_EQ</code>), the <code>_Y-COMB</code> and <code>_Z-COMB</code> fixed-point combinators, and the recursive examples <code>_FACT</code> and <code>_FIB</code>. The menu next to the panel shows one category at a time, or only your custom and script terms.</li>
+              <li><strong>Data Encodings:</strong> "Data Encoding" chooses how numerals and lists are represented. Church numerals (the default) are their own fold, <code>λf.λx.f (f x)</code>; Scott numerals are their own case analysis, <code>n+1 = λs.λz.s n</code>, with a one-step <code>_PRED</code>; Parigot numerals carry both, <code>n+1 = λs.λz.s n (n s z)</code>, so they double in size with each successor and <code>_N</code> stops at <code>_10</code>. <code>_N</code>, <code>_SUCC</code>, <code>_PRED</code>, <code>_ISZERO</code>, <code>_PLUS</code>, <code>_MULT</code>, <code>_POW</code>, <code>_SUB</code> and the list terms follow the selection, and so do the terms built from them (<code>_LEQ</code>, <code>_EQ</code>, <code>_FACT</code>, <code>_FIB</code>); results are recognized as numerals in it. Scott arithmetic recurses through <code>_Y-COMB</code>, so it needs normal order. Parigot leaves out <code>_POW</code>, <code>_FACT</code> and <code>_FIB</code>, whose numerals would grow too large to finish; using them is an error.</li>
+              <li><strong>Definition Scripts:</strong> Put definitions before the expression, one per statement: <code>let NAME = term;</code> (ends at the semicolon, may span lines) or <code>NAME := term</code> (ends at the end of the line). Later definitions and the final expression can use earlier ones as <code>_NAME</code>. <code>--</code> or <code>#</code> starts a comment that runs to the end of the line. Paste a whole library of definitions this way; they appear in the terms panel marked "Script".</li>
+              <li><strong>Typed Terms:</strong> Annotate binders with types for the simply-typed lambda calculus: <code>λx:Nat.x</code>, <code>λf:Nat → Nat x:Nat.f (f x)</code> (<code>-&gt;</code> works for <code>→</code>). For System F, <code>Λα.M</code> (or <code>/\\α.M</code>) abstracts over a type, <code>M [A]</code> applies a term to a type and <code>∀α.A</code> (or <code>forall a.A</code>) is a polymorphic type, e.g. <code>(Λα.λx:α.x) [Nat]</code>. Names not bound by a <code>∀</code> are base types. A term with any annotation is type-checked before it can be reduced: every lambda needs an annotation and every variable must be bound. An ill-typed term is rejected with an error that explains the mismatch. Reduction works on the term without its types, keeping the annotations, and instantiates a type application when a β-step needs the lambda under it.</li>
               <li><strong>Church Numerals:</strong> Type <code>_N</code> (e.g., <code>_0</code>, <code>_5</code>, <code>_42</code>) directly for Church numerals.</li>
               <li><strong>Reduction:</strong>
                 <ul>
-                  <li>"Reduce Step": Performs one β-reduction (leftmost-outermost).</li>
-                  <li>"Reduce to Normal Form": Evaluates until no more reductions are possible (or max steps reached).</li>
+                  <li>"Reduce Step": Performs one β-reduction, choosing the redex according to the selected strategy.</li>
+                  <li>"Reduce to Normal Form": Evaluates until the strategy finds no more redexes or a limit is reached. It runs in the background with a live step count and term size, so the page stays responsive; "Cancel" stops it. "Budget" sets the maximum number of steps, the time limit and the largest term size allowed.</li>
+                  <li>"Engine": "Substitution" repeats single steps of the selected strategy. "Sharing" evaluates call-by-need, so an argument used many times is computed once; it always finds the full β-normal form (like normal order) and handles terms such as <code>_MULT _20 _20</code> instantly. Enable "Cross-check" under "Budget" to run both engines and compare their results; it is unavailable for the substitution engine under call-by-name, call-by-value and head reduction, which stop before the normal form.</li>
+                  <li>"Reduction Strategy": Normal order (leftmost-outermost), applicative order (leftmost-innermost), call-by-name (weak head), call-by-value, or head reduction. The highlighted redex in both diagrams follows the chosen strategy. Weak strategies stop at a weak head normal form, head reduction at a head normal form.</li>
+                  <li>"η-reduction": Also contracts η-redexes, <code>λx.M x → M</code> when <code>x</code> is not free in <code>M</code>. Only the strategies that reduce under lambdas take η-steps; full reduction then computes the βη-normal form. η-redexes are outlined like β-redexes: the lambda node in the AST, the lambda bar in the Tromp diagram.</li>
+                  <li>η-expansion: Right-click a lambda or variable node in the AST, or any lambda bar or variable line in the Tromp diagram, to replace that term <code>N</code> by <code>λx.N x</code>.</li>
                 </ul>
               </li>
+              <li><strong>History Timeline:</strong> Every reduction step is recorded. Use the undo/redo buttons or drag the slider above the diagrams to revisit any earlier step; all visualizers show that step with the redex that was contracted from it highlighted. Reducing from an earlier step discards the later ones. The strip under the slider shows the kind of each step: β-steps in blue, η-steps in magenta and η-expansions in pale magenta; the diagrams highlight η-steps in magenta too.</li>
+              <li><strong>Auto-play:</strong> The play button next to the timeline steps forward on its own: through the recorded steps ahead first, then with the selected reduction strategy, until the term is in normal form. Press it again to pause. The speed selector (0.5× to 4×) sets the time between steps and the length of the step animations.</li>
+              <li><strong>Export:</strong> The download button on the Tromp, Experimental Tromp and AST tabs saves the current step as a standalone SVG file (with the theme's colors written out, so it looks the same anywhere) or as a PNG image at 1×, 2× or 4× resolution. It can also save the whole recorded reduction as an animated GIF or a WebM video, one frame per step with the contracted redex highlighted; each frame lasts as long as an auto-played step at the selected speed. Videos are recorded in real time.</li>
+              <li><strong>LaTeX:</strong> The "LaTeX" menu next to the prettified form copies the current term, or the whole recorded reduction as an <code>align*</code> block with each contracted redex underlined, for pasting into a document. With "Named terms as macros" on, sub-terms the prettified form names print as macros such as <code>\lcPLUS</code> (prefixed so that terms like <code>_S</code> do not clash with LaTeX's own commands) and numerals as <code>\overline{'{'}2{'}'}</code>; the <code>\newcommand</code> definitions of those macros are copied along, for the preamble. On the Tromp tab, the download button also saves the current diagram as a TikZ picture.</li>
               <li><strong>Displays:</strong>
                 <ul>
-                  <li>"Current Form": The expression after the last step-reduction.</li>
-                  <li>"Prettified Form": Tries to show the current expression using <code>_NAME</code> for known sub-terms.</li>
-                  <li>"Normal Form": The result of full reduction.</li>
+                  <li>"Current Form": The expression after the last step-reduction. The "De Bruijn" switch replaces bound variables with indices counting enclosing lambdas from 1, so <code>λx.λy.x y</code> shows as <code>λ λ 2 1</code>.</li>
+                  <li>"Prettified Form": Tries to show the current expression using <code>_NAME</code> for known sub-terms. A sub-term matches a name when it is α-equivalent to its definition, i.e. equal up to renaming of bound variables.</li>
+                  <li>"Normal Form": The result of full reduction. Reduction stops early if a step reproduces the same term up to α-equivalence, as with <code>(λx.x x)(λx.x x)</code>.</li>
                 </ul>
               </li>
               <li><strong>Abstract Syntax Tree (AST) Visualizer:</strong>
@@ -300,15 +166,38 @@ export function HelpContent() {
                   <li>Pan by dragging, zoom with the mouse wheel.</li>
                   <li>Click the "Home" icon to reset the view.</li>
                   <li>If the entire AST represents a single known term (e.g., <code>_ID</code>, <code>_6</code>), it will display collapsed. Click to expand/re-collapse.</li>
+                  <li>Every redex is outlined with a dashed border. Click any of them to contract that redex yourself instead of following the strategy.</li>
+                  <li>Typed terms show their annotations on the nodes: <code>λx:Nat.</code>, and <code>Λα.</code> or <code>[Nat]</code> around the node they apply to. For them "Types" shows the checked types instead of inferred ones.</li>
+                  <li>Turn on "Types" to infer the principal simple type of the term (Hindley–Milner), e.g. <code>(α → α) → α → α</code> for <code>_2</code>. Hover a node to see the type of that sub-term; free variables get assumed types. Terms with no simple type, like <code>λx.x x</code> or <code>_Y-COMB</code>, report the failed occurs check and outline the application where it failed.</li>
+                  <li>Turn on "Origins" to see where the nodes of the current step came from: nodes copied from the argument of the last step are outlined in yellow, binders and variables renamed by α-conversion in purple. Hovering a node says how the last step produced it. Expanded named terms stay expanded when you step forward or back.</li>
+                  <li>With "Animate" on, each step forward morphs the tree: nodes that survive the step move to their new places, the redex's application and lambda fade out with the substituted variables, and the copies of the argument fade in where they are substituted.</li>
                 </ul>
               </li>
               <li><strong>Tromp Diagram Visualizer:</strong>
                 <ul>
                   <li>An alternative "circuit-like" visualization.</li>
                   <li>Automatically scales to fit. Colored by originating primitives.</li>
+                  <li>Application connectors of redexes are dashed. Click one to contract that redex, so you can compare different reduction paths.</li>
+                  <li>For closed terms the header shows the size of the term in John Tromp's binary lambda calculus (BLC): <code>00</code> for λ, <code>01</code> for application and <code>1…10</code> (n ones) for De Bruijn index n. Click the size to copy the bits.</li>
+                </ul>
+              </li>
+              <li><strong>Reduction Graph:</strong>
+                <ul>
+                  <li>Shows every term reachable from the current one by contracting any redex, one step per arrow, with α-equivalent terms merged. Paths that meet again illustrate confluence; an arrow back to an earlier term (e.g. in <code>(λx.y) ((λx.x x)(λx.x x))</code>) marks a branch that never terminates.</li>
+                  <li>The current term has a teal border and the normal form is green. Thicker arrows stand for several redexes giving the same term. Click a term to see it in full.</li>
+                  <li>"Limits" bounds the depth, the number of terms and the size of terms explored; terms beyond a limit have a dashed border.</li>
+                </ul>
+              </li>
+              <li><strong>Abstract Machine:</strong>
+                <ul>
+                  <li>Runs the term currently shown in the history on an environment machine, which evaluates without substitution: variables are bound to closures (a term with the environment it came from), written <code>⟨M, ρ[n]⟩</code> for an environment of n bindings.</li>
+                  <li>"Krivine Machine" is call-by-name and stops at weak head normal form (rules push, grab, access). "CEK Machine" is call-by-value and keeps what remains to be done in a continuation.</li>
+                  <li>Step through the transitions with the arrows or the slider, or click one in the list. Each state shows the rule that produced it, the control term, the environment and the stack or continuation.</li>
                 </ul>
               </li>
-              <li><strong>Custom Terms:</strong> Define your own named expressions at the bottom of the input panel. They are saved in your browser. Delete them via the 'X' icon in the terms panel.</li>
+              <li><strong>Compare:</strong> Enter two expressions to check whether they are equal. Both are parsed with your custom terms and normalized in normal order using the selected engine and the full reduction budget ("Use current" copies the expression from the input panel). The result is "α-equivalent" (equal up to renaming), "β-equivalent" (same normal form), "Different normal forms" (so not equivalent), or "Unknown" when a term did not reach a normal form within the budget. With η-reduction on, βη-equivalence is checked. Tromp diagrams of both normal forms are shown side by side.</li>
+              <li><strong>Sharing:</strong> The address bar always holds a link to what you see: the expression, the custom terms it uses, the reduction strategy, the data encoding, the open tab and the reduction steps up to the current one. "Share" copies that link. Opening it restores the same step; shared custom terms you don't have yet are added to your library.</li>
+              <li><strong>Custom Terms:</strong> Define your own named expressions at the bottom of the input panel. They are saved in your browser. Delete them via the 'X' icon in the terms panel. "Export Library" downloads them as a JSON file; "Import Library" reads such a file back, lets you skip, rename or overwrite terms whose names are taken, and reports any definitions that fail to parse.</li>
             </ul>
           </CardContent>
         </Card>
@@ -0,0 +1,106 @@
+"use client";
+import { useLambda } from '@/contexts/LambdaContext';
+import type { HistoryStepKind } from '@/contexts/LambdaContext';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Undo2, Redo2, History, Play, Pause } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { playbackSpeeds } from '@/lib/playback';
+import type { PlaybackSpeed } from '@/lib/playback';
+
+const STEP_KIND_LABELS: Record<HistoryStepKind, string> = {
+  beta: 'β',
+  eta: 'η',
+  'eta-expansion': 'η-exp',
+};
+
+const STEP_KIND_CLASSES: Record<HistoryStepKind, string> = {
+  beta: 'bg-ast-highlight-bg/70',
+  eta: 'bg-ast-eta-highlight-bg',
+  'eta-expansion': 'bg-ast-eta-highlight-bg/40',
+};
+
+export function HistoryTimeline() {
+  const { astHistory, historySteps, historyIndex, goToHistoryStep, stepBackward, stepForward, isLoading, isReducible, isAutoPlaying, setAutoPlaying, playbackSpeed, setPlaybackSpeed } = useLambda();
+
+  const lastIndex = Math.max(0, astHistory.length - 1);
+  const hasHistory = astHistory.length > 1;
+  const arrivingStep = historyIndex > 0 ? historySteps[historyIndex - 1] : undefined;
+  const canAutoPlay = historyIndex < lastIndex || isReducible;
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border bg-card px-3 py-2 mb-2 shrink-0">
+      <History className="h-4 w-4 text-muted-foreground shrink-0" />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0"
+        onClick={stepBackward}
+        disabled={isLoading || historyIndex <= 0}
+        title="Step backward (undo)"
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <div className="flex flex-col gap-1 flex-grow">
+        <Slider
+          min={0}
+          max={lastIndex}
+          step={1}
+          value={[historyIndex]}
+          onValueChange={([index]) => goToHistoryStep(index)}
+          disabled={isLoading || !hasHistory}
+          aria-label="Reduction history"
+        />
+        {/* One segment per recorded step, colored by its kind */}
+        {hasHistory && (
+          <div className="flex gap-px h-1">
+            {historySteps.map((step, i) => (
+              <button
+                key={i}
+                type="button"
+                className={cn('flex-1 rounded-sm', STEP_KIND_CLASSES[step.kind], i >= historyIndex && 'opacity-40')}
+                onClick={() => goToHistoryStep(i + 1)}
+                disabled={isLoading}
+                title={`Step ${i + 1}: ${STEP_KIND_LABELS[step.kind]}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0"
+        onClick={stepForward}
+        disabled={isLoading || historyIndex >= lastIndex}
+        title="Step forward (redo)"
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0"
+        onClick={() => setAutoPlaying(!isAutoPlaying)}
+        disabled={!isAutoPlaying && (isLoading || !canAutoPlay)}
+        title={isAutoPlaying ? "Pause auto-play" : "Auto-play: step forward on a timer until the normal form"}
+      >
+        {isAutoPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <Select value={playbackSpeed} onValueChange={(value) => setPlaybackSpeed(value as PlaybackSpeed)}>
+        <SelectTrigger className="h-7 w-[4.5rem] shrink-0 text-xs" title="Auto-play and animation speed" aria-label="Playback speed">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {playbackSpeeds.map(speed => (
+            <SelectItem key={speed.id} value={speed.id} title={speed.description}>{speed.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="text-xs font-mono text-muted-foreground whitespace-nowrap min-w-[7.5rem] text-right">
+        Step {historyIndex} / {lastIndex}{arrivingStep && ` · ${STEP_KIND_LABELS[arrivingStep.kind]}`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+import React, { useState } from 'react';
+import { useLambda } from '@/contexts/LambdaContext';
+import type { ASTNode } from '@/lib/lambda-calculus/types';
+import { printLatex, latexReductionTrace, latexMacroDefinitions } from '@/lib/lambda-calculus/latex';
+import type { LatexOptions } from '@/lib/lambda-calculus/latex';
+import { namedTermRecognizer } from '@/lib/lambda-calculus/prettifier';
+import { predefinedExpressionsFor } from '@/lib/lambda-calculus/encodings';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { FileCode } from 'lucide-react';
+
+// Copies the current term, or the whole recorded reduction, as LaTeX. With named terms on, the
+// sub-terms the prettified form names print as macros, and their definitions are copied first.
+export function LatexExportMenu() {
+  const { currentAST, astHistory, historySteps, customExpressions, scriptDefinitions, dataEncoding, printOptions } = useLambda();
+  const { toast } = useToast();
+  const [namedTerms, setNamedTerms] = useState(true);
+
+  const recordedSteps = astHistory.filter((ast): ast is ASTNode => ast !== null);
+
+  const copyLatex = (print: (options: LatexOptions) => string, what: string) => {
+    const usedNames = new Set<string>();
+    const options: LatexOptions = { compactLambdas: printOptions.compactLambdas, usedNames };
+    if (namedTerms) {
+      options.recognizeName = namedTermRecognizer([...customExpressions, ...scriptDefinitions], predefinedExpressionsFor(dataEncoding), dataEncoding);
+    }
+    const body = print(options);
+    const definitions = latexMacroDefinitions(usedNames);
+    const text = definitions ? `% Preamble\n${definitions}\n\n${body}\n` : `${body}\n`;
+    navigator.clipboard.writeText(text)
+      .then(() => toast({ title: "LaTeX Copied", description: definitions ? `The ${what} and the definitions of its named terms are on the clipboard.` : `The ${what} is on the clipboard.` }))
+      .catch(() => toast({ title: "Copy Failed", description: "Could not access the clipboard.", variant: "destructive" }));
+  };
+
+  const copyTerm = () => {
+    if (currentAST) copyLatex(options => `\\[\n  ${printLatex(currentAST, options)}\n\\]`, "term");
+  };
+
+  const copyTrace = () => {
+    copyLatex(options => latexReductionTrace(recordedSteps, historySteps, options), "reduction");
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 text-xs text-muted-foreground" disabled={!currentAST} title="Copy as LaTeX">
+          <FileCode className="mr-1 h-3.5 w-3.5" /> LaTeX
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={copyTerm}>Copy current term</DropdownMenuItem>
+        <DropdownMenuItem disabled={recordedSteps.length < 2} onSelect={copyTrace}>
+          Copy reduction ({recordedSteps.length - 1} step{recordedSteps.length === 2 ? '' : 's'})
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem checked={namedTerms} onCheckedChange={checked => setNamedTerms(checked === true)} onSelect={event => event.preventDefault()}>
+          Named terms as macros
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,58 +1,97 @@
 
 "use client";
-import { predefinedExpressions } from '@/lib/lambda-calculus/predefined';
+import { useState } from 'react';
+import { termCategories } from '@/lib/lambda-calculus/predefined';
+import { predefinedExpressionsFor } from '@/lib/lambda-calculus/encodings';
+import type { NamedExpression, TermCategory } from '@/lib/lambda-calculus/predefined';
 import { useLambda } from '@/contexts/LambdaContext';
 import { NamedExpressionButton } from './NamedExpressionButton';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { X } from 'lucide-react'; // Import X icon for delete
 
 interface NamedExpressionsPanelProps {
   onInsert: (lambda: string) => void;
 }
 
+// 'custom' shows the user's library and the current script's definitions
+type TermFilter = 'all' | TermCategory | 'custom';
+
+// Where a listed term comes from; predefined terms have neither flag
+type ListedExpression = NamedExpression & { isCustom?: boolean; isScript?: boolean };
+
 export function NamedExpressionsPanel({ onInsert }: NamedExpressionsPanelProps) {
-  const { customExpressions, removeCustomExpression } = useLambda();
+  const { customExpressions, scriptDefinitions, removeCustomExpression, dataEncoding } = useLambda();
+  const [filter, setFilter] = useState<TermFilter>('all');
 
-  const allExpressions = [...predefinedExpressions, ...customExpressions.map(ce => ({...ce, isCustom: true}))];
+  const allExpressions: ListedExpression[] = [
+    ...predefinedExpressionsFor(dataEncoding).filter(expr => filter === 'all' || expr.category === filter),
+    ...(filter === 'all' || filter === 'custom' ? [
+      ...customExpressions.map(ce => ({...ce, isCustom: true})),
+      ...scriptDefinitions.map(sd => ({...sd, isScript: true})),
+    ] : []),
+  ];
 
   return (
     <TooltipProvider delayDuration={200}>
-      <ScrollArea className="w-full whitespace-nowrap rounded-md border border-input bg-background p-1 min-h-[60px]"> {/* Increased min-h */}
-        <div className="flex space-x-2 p-1">
-          {allExpressions.map((expr) => (
-            <div key={expr.name} className="relative group flex items-center space-x-1">
-              <NamedExpressionButton expression={expr} onInsert={onInsert} />
-              {(expr as any).isCustom && (
-                <>
-                  <Badge 
-                    variant="secondary" 
-                    className="text-xs px-1 py-0 leading-tight group-hover:bg-primary group-hover:text-primary-foreground"
-                  >
-                    Custom
+      <div className="flex items-stretch gap-2">
+        <Select value={filter} onValueChange={(value) => setFilter(value as TermFilter)}>
+          <SelectTrigger className="w-[140px] h-auto flex-shrink-0 bg-input text-foreground text-xs" aria-label="Term category">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All terms</SelectItem>
+            {termCategories.map(category => (
+              <SelectItem key={category.id} value={category.id}>{category.label}</SelectItem>
+            ))}
+            <SelectItem value="custom">Custom & script</SelectItem>
+          </SelectContent>
+        </Select>
+        <ScrollArea className="w-full min-w-0 whitespace-nowrap rounded-md border border-input bg-background p-1 min-h-[60px]"> {/* Increased min-h */}
+          <div className="flex space-x-2 p-1">
+            {allExpressions.map((expr) => (
+              <div key={`${expr.isScript ? 'script' : 'term'}-${expr.name}`} className="relative group flex items-center space-x-1">
+                <NamedExpressionButton expression={expr} onInsert={onInsert} />
+                {expr.isScript && (
+                  <Badge variant="outline" className="text-xs px-1 py-0 leading-tight">
+                    Script
                   </Badge>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-5 w-5 p-0 text-muted-foreground hover:text-destructive opacity-50 group-hover:opacity-100 transition-opacity"
-                    onClick={(e) => {
-                        e.stopPropagation(); // Prevent tooltip or other parent actions
-                        removeCustomExpression(expr.name);
-                    }}
-                    aria-label={`Remove ${expr.name}`}
-                    title={`Remove ${expr.name}`}
-                  >
-                    <X className="h-3.5 w-3.5" />
-                  </Button>
-                </>
-              )}
-            </div>
-          ))}
-        </div>
-        <ScrollBar orientation="horizontal" className="h-2" />
-      </ScrollArea>
+                )}
+                {expr.isCustom && (
+                  <>
+                    <Badge 
+                      variant="secondary" 
+                      className="text-xs px-1 py-0 leading-tight group-hover:bg-primary group-hover:text-primary-foreground"
+                    >
+                      Custom
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5 p-0 text-muted-foreground hover:text-destructive opacity-50 group-hover:opacity-100 transition-opacity"
+                      onClick={(e) => {
+                          e.stopPropagation(); // Prevent tooltip or other parent actions
+                          removeCustomExpression(expr.name);
+                      }}
+                      aria-label={`Remove ${expr.name}`}
+                      title={`Remove ${expr.name}`}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+            {allExpressions.length === 0 && (
+              <p className="text-xs text-muted-foreground self-center px-1">No terms in this category yet.</p>
+            )}
+          </div>
+          <ScrollBar orientation="horizontal" className="h-2" />
+        </ScrollArea>
+      </div>
     </TooltipProvider>
   );
 }
@@ -0,0 +1,184 @@
+"use client";
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLambda } from '@/contexts/LambdaContext';
+import { buildReductionGraph, layoutReductionGraph, DEFAULT_REDUCTION_GRAPH_LIMITS, MAX_REDUCTION_GRAPH_LIMITS } from '@/lib/lambda-calculus/reduction-graph';
+import type { ReductionGraphLimits } from '@/lib/lambda-calculus/reduction-graph';
+import { prettifyAST } from '@/lib/lambda-calculus/prettifier';
+import { predefinedExpressionsFor } from '@/lib/lambda-calculus/encodings';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Info, Settings2 } from 'lucide-react';
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 36;
+const COLUMN_WIDTH = 260;
+const ROW_HEIGHT = 64;
+const NODE_FONT_SIZE = 12;
+const MAX_LABEL_LENGTH = 24;
+
+type Point = { x: number; y: number };
+
+// Forward edges run from the right side of one node to the left side of the next column; edges to
+// the same or an earlier column bend above the nodes, and a step back to the same term is a loop.
+function edgePath(from: Point, to: Point, isSelfLoop: boolean): string {
+  const top = from.y - NODE_HEIGHT / 2;
+  if (isSelfLoop) {
+    return `M ${from.x - 20} ${top} C ${from.x - 30} ${top - 36}, ${from.x + 30} ${top - 36}, ${from.x + 20} ${top}`;
+  }
+  if (to.x > from.x) {
+    const start = { x: from.x + NODE_WIDTH / 2, y: from.y };
+    const end = { x: to.x - NODE_WIDTH / 2, y: to.y };
+    const bend = (end.x - start.x) / 2;
+    return `M ${start.x} ${start.y} C ${start.x + bend} ${start.y}, ${end.x - bend} ${end.y}, ${end.x} ${end.y}`;
+  }
+  const lift = ROW_HEIGHT / 2 + Math.abs(from.x - to.x) / 8;
+  const endTop = to.y - NODE_HEIGHT / 2;
+  return `M ${from.x} ${top} C ${from.x} ${top - lift}, ${to.x} ${endTop - lift}, ${to.x} ${endTop}`;
+}
+
+// Every reduction path from the current term, with α-equivalent terms merged
+export function ReductionGraphVisualizer() {
+  const { currentAST, customExpressions, printOptions, etaReduction, dataEncoding } = useLambda();
+  const [limits, setLimits] = useState<ReductionGraphLimits>(DEFAULT_REDUCTION_GRAPH_LIMITS);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const graph = useMemo(() => (currentAST ? buildReductionGraph(currentAST, limits, etaReduction) : null), [currentAST, limits, etaReduction]);
+  const layout = useMemo(() => (graph ? layoutReductionGraph(graph, COLUMN_WIDTH, ROW_HEIGHT) : null), [graph]);
+  const labels = useMemo(
+    () => graph?.nodes.map(node => prettifyAST(node.ast, customExpressions, predefinedExpressionsFor(dataEncoding), printOptions, dataEncoding)) ?? [],
+    [graph, customExpressions, printOptions, dataEncoding]
+  );
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [graph]);
+
+  // Limits are edited as whole numbers; non-positive or non-numeric input is ignored, larger
+  // values than the maximum are capped
+  const handleLimitChange = (field: keyof ReductionGraphLimits, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (parsed > 0) setLimits(prev => ({ ...prev, [field]: Math.min(parsed, MAX_REDUCTION_GRAPH_LIMITS[field]) }));
+  };
+
+  const selected = graph?.nodes[Math.min(selectedIndex, graph.nodes.length - 1)];
+  const normalForms = graph?.nodes.filter(node => node.isNormalForm) ?? [];
+
+  return (
+    <Card className="h-full flex flex-col">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-xl font-semibold">Reduction Graph</CardTitle>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Settings2 className="mr-1 h-3.5 w-3.5" /> Limits
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-3" align="end">
+            <p className="text-sm font-medium">Exploration Limits</p>
+            <div className="space-y-1">
+              <Label htmlFor="graph-depth" className="text-xs">Depth (steps from the current term, at most {MAX_REDUCTION_GRAPH_LIMITS.maxDepth})</Label>
+              <Input id="graph-depth" type="number" min={1} max={MAX_REDUCTION_GRAPH_LIMITS.maxDepth} defaultValue={limits.maxDepth} onChange={(e) => handleLimitChange('maxDepth', e.target.value)} className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="graph-nodes" className="text-xs">Terms (at most {MAX_REDUCTION_GRAPH_LIMITS.maxNodes})</Label>
+              <Input id="graph-nodes" type="number" min={1} max={MAX_REDUCTION_GRAPH_LIMITS.maxNodes} defaultValue={limits.maxNodes} onChange={(e) => handleLimitChange('maxNodes', e.target.value)} className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="graph-size" className="text-xs">Term size (AST nodes, at most {MAX_REDUCTION_GRAPH_LIMITS.maxTermSize})</Label>
+              <Input id="graph-size" type="number" min={1} max={MAX_REDUCTION_GRAPH_LIMITS.maxTermSize} defaultValue={limits.maxTermSize} onChange={(e) => handleLimitChange('maxTermSize', e.target.value)} className="h-8" />
+            </div>
+          </PopoverContent>
+        </Popover>
+      </CardHeader>
+      <CardContent className="flex-grow flex flex-col gap-3 min-h-0">
+        {!graph || !layout || !selected ? (
+          <div className="flex flex-col items-center justify-center h-full text-muted-foreground p-4 text-center">
+            <Info className="w-10 h-10 mb-3" />
+            <p className="text-lg">Enter a lambda expression to explore its reductions.</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {graph.nodes.length} term{graph.nodes.length === 1 ? '' : 's'}, {graph.edges.length} edge{graph.edges.length === 1 ? '' : 's'}.{' '}
+              {normalForms.length > 0 ? 'Normal form reached.' : 'No normal form found.'}{' '}
+              {!graph.complete && 'Limits reached: terms with a dashed border were not fully explored.'}
+            </p>
+            <div className="flex-grow overflow-auto rounded-md border bg-background min-h-0">
+              <svg width={layout.width} height={layout.height + ROW_HEIGHT / 2} className="block">
+                <defs>
+                  <marker id="reduction-graph-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill="hsl(var(--muted-foreground))" />
+                  </marker>
+                </defs>
+                <g transform={`translate(0, ${ROW_HEIGHT / 2})`}>
+                  {graph.edges.map(edge => (
+                    <path
+                      key={`${edge.from}-${edge.to}`}
+                      d={edgePath(layout.positions[edge.from], layout.positions[edge.to], edge.from === edge.to)}
+                      fill="none"
+                      stroke={edge.to === selected.index || edge.from === selected.index ? 'hsl(var(--secondary))' : 'hsl(var(--muted-foreground) / 0.6)'}
+                      strokeWidth={edge.redexCount > 1 ? 2.5 : 1.5}
+                      markerEnd="url(#reduction-graph-arrow)"
+                    >
+                      {edge.redexCount > 1 && <title>{edge.redexCount} different redexes lead here</title>}
+                    </path>
+                  ))}
+                  {graph.nodes.map(node => {
+                    const { x, y } = layout.positions[node.index];
+                    const label = labels[node.index] ?? '';
+                    const stroke = node.isNormalForm
+                      ? 'hsl(var(--ast-lambda-fg))'
+                      : node.index === 0 ? 'hsl(var(--primary))' : 'hsl(var(--border))';
+                    return (
+                      <g
+                        key={node.index}
+                        transform={`translate(${x - NODE_WIDTH / 2}, ${y - NODE_HEIGHT / 2})`}
+                        onClick={() => setSelectedIndex(node.index)}
+                        className="cursor-pointer"
+                      >
+                        <title>{label}</title>
+                        <rect
+                          width={NODE_WIDTH}
+                          height={NODE_HEIGHT}
+                          rx={6}
+                          ry={6}
+                          fill={node.isNormalForm ? 'hsl(var(--ast-lambda-bg))' : 'hsl(var(--card))'}
+                          stroke={stroke}
+                          strokeWidth={node.index === selected.index ? 3 : node.isNormalForm || node.index === 0 ? 2 : 1.5}
+                          strokeDasharray={node.explored ? undefined : '4 2'}
+                        />
+                        <text
+                          x={NODE_WIDTH / 2}
+                          y={NODE_HEIGHT / 2}
+                          textAnchor="middle"
+                          dominantBaseline="central"
+                          fill="hsl(var(--foreground))"
+                          fontSize={NODE_FONT_SIZE}
+                          fontFamily="var(--font-geist-mono)"
+                          style={{ pointerEvents: 'none' }}
+                        >
+                          {label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label}
+                        </text>
+                      </g>
+                    );
+                  })}
+                </g>
+              </svg>
+            </div>
+            <div className="rounded-md border p-3 space-y-1 text-sm">
+              <p className="font-medium">
+                {selected.index === 0 ? 'Current term' : `${selected.depth} step${selected.depth === 1 ? '' : 's'} from the current term`}
+                {selected.isNormalForm && ' · normal form'}
+                {!selected.explored && ' · not fully explored'}
+              </p>
+              <p className="font-mono break-all">{labels[selected.index]}</p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { parse } from '@/lib/lambda-calculus/parser';
+import { generateTrompDiagramData, type TrompDiagramRenderData } from '@/lib/lambda-calculus/tromp-diagram/renderer';
+import type { SvgElementData } from '@/lib/lambda-calculus/tromp-diagram/tromp-types';
+import type { ASTNode } from '@/lib/lambda-calculus/types';
+import { predefinedExpressions } from '@/lib/lambda-calculus/predefined'; // For parser context
+import { cn } from "@/lib/utils";
+
+// Primitive colors - consistent with TrompDiagramVisualizer
+const primitiveColors: Record<string, string> = {
+  "_0": "hsl(var(--ast-variable-bg))",
+  "_1": "hsl(var(--ast-variable-bg))",
+  "_2": "hsl(var(--ast-variable-bg))",
+  "_3": "hsl(var(--ast-variable-bg))",
+  "_TRUE": "hsl(var(--ast-lambda-fg))",
+  "_FALSE": "hsl(var(--ast-application-fg))",
+  "_NOT": "hsl(var(--ring))",
+  "_AND": "hsl(var(--secondary))",
+  "_OR": "hsl(var(--secondary-foreground))",
+  "_SUCC": "hsl(var(--ast-lambda-bg))",
+  "_PLUS": "hsl(var(--ast-application-bg))",
+  "_MULT": "hsl(var(--destructive))",
+  "_POW": "hsl(var(--primary))",
+  "_ID": "hsl(var(--muted-foreground))",
+  "_Y-COMB": "hsl(var(--accent))",
+};
+
+// getPrimitiveColor function - consistent with TrompDiagramVisualizer
+function getPrimitiveColor(primitiveName?: string): string | undefined {
+    if (!primitiveName) return undefined;
+    if (primitiveColors[primitiveName]) {
+        return primitiveColors[primitiveName];
+    }
+    if (/^_\d+$/.test(primitiveName)) { // For _4, _5 etc.
+        return primitiveColors["_0"] || "hsl(var(--ast-variable-bg))";
+    }
+    return undefined;
+}
+
+interface StaticTrompDiagramProps {
+  termString: string; // Parsed with the predefined terms unless `ast` is given; always shown as the caption
+  ast?: ASTNode;
+  displayName: string;
+  targetWidth: number;
+  maxHeight: number;
+  className?: string;
+}
+
+// A fixed-size Tromp diagram without interaction
+export const StaticTrompDiagram: React.FC<StaticTrompDiagramProps> = ({
+  termString,
+  ast: givenAst,
+  displayName,
+  targetWidth,
+  maxHeight,
+  className,
+}) => {
+  const diagramData: TrompDiagramRenderData | null = useMemo(() => {
+    try {
+      // Pass predefined expressions as context for parsing _ID, _0 etc.
+      const ast: ASTNode = givenAst ?? parse(termString, predefinedExpressions);
+
+      // First pass to get grid units (scale = 1 for this)
+      const initialDiagramData = generateTrompDiagramData(ast, 1);
+      if (!initialDiagramData || initialDiagramData.widthInGridUnits <= 0 || initialDiagramData.heightInGridUnits <= 0) {
+        return null;
+      }
+
+      const { widthInGridUnits, heightInGridUnits } = initialDiagramData;
+
+      const paddingFactor = 0.85; // Use 85% of available space
+      const availableWidth = targetWidth * paddingFactor;
+      const availableHeight = maxHeight * paddingFactor;
+
+      let calculatedScale = 10; // Default scale
+      if (widthInGridUnits > 0 && heightInGridUnits > 0) {
+          const scaleX = availableWidth / widthInGridUnits;
+          const scaleY = availableHeight / heightInGridUnits;
+          calculatedScale = Math.max(1, Math.min(scaleX, scaleY));
+      }
+
+      return generateTrompDiagramData(ast, calculatedScale);
+    } catch (error) {
+      console.error(`Error generating Tromp diagram for ${displayName}:`, error);
+      return null;
+    }
+  }, [termString, givenAst, displayName, targetWidth, maxHeight]);
+
+  if (!diagramData) {
+    return (
+      <div className={cn("flex items-center justify-center border rounded-md bg-muted text-destructive text-xs p-2", className)} style={{width: targetWidth, height: maxHeight / 2}}>
+        Error generating diagram for {displayName}.
+      </div>
+    );
+  }
+
+  const strokeW = Math.max(0.1, 1 / (diagramData.actualWidthPx / diagramData.widthInGridUnits)); // Adjusted stroke width
+
+  return (
+    <div className={cn("flex flex-col items-center border rounded-md p-2 bg-background", className)}>
+      <p className="font-medium text-sm mb-1 text-center">{displayName}</p>
+      <svg
+        width={diagramData.actualWidthPx}
+        height={diagramData.actualHeightPx}
+        viewBox={diagramData.viewBox}
+        xmlns="http://www.w3.org/2000/svg"
+        preserveAspectRatio="xMidYMid meet"
+        className="border border-dashed border-border"
+      >
+        <g transform="translate(0.5 0.5)">
+          {diagramData.svgElements.map((el: SvgElementData) => {
+            const color = getPrimitiveColor(el.sourcePrimitiveName) || "hsl(var(--foreground))";
+            const commonProps = {
+              stroke: color,
+              strokeWidth: strokeW,
+              fill: "none",
+            };
+            if (el.type === 'line') {
+              return (
+                <line
+                  key={el.key}
+                  x1={el.x1}
+                  y1={el.y1}
+                  x2={el.x2}
+                  y2={el.y2}
+                  {...commonProps}
+                >
+                  {el.title && <title>{el.title} (Primitive: {el.sourcePrimitiveName || 'N/A'})</title>}
+                </line>
+              );
+            } else if (el.type === 'polyline') {
+              return (
+                <polyline
+                  key={el.key}
+                  points={el.points}
+                  {...commonProps}
+                >
+                   {el.sourcePrimitiveName && <title>Primitive: {el.sourcePrimitiveName}</title>}
+                </polyline>
+              );
+            }
+            return null;
+          })}
+        </g>
+      </svg>
+       <p className="text-xs text-muted-foreground text-center mt-1">
+        {termString}
+      </p>
+    </div>
+  );
+};
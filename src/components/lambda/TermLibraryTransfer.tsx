@@ -0,0 +1,172 @@
+"use client";
+import React, { useRef, useState } from 'react';
+import { useLambda } from '@/contexts/LambdaContext';
+import { predefinedExpressions } from '@/lib/lambda-calculus/predefined';
+import type { NamedExpression } from '@/lib/lambda-calculus/predefined';
+import { serializeTermLibrary, parseTermLibraryFile } from '@/lib/term-library';
+import type { ImportConflictResolution, TermLibraryImportReport } from '@/lib/term-library';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Upload } from 'lucide-react';
+
+const CONFLICT_RESOLUTIONS: { id: ImportConflictResolution; label: string; description: string }[] = [
+  { id: 'skip', label: 'Skip', description: 'Keep your definition and ignore the imported one.' },
+  { id: 'rename', label: 'Rename', description: 'Import it as NAME_2 (references in the file are updated).' },
+  { id: 'overwrite', label: 'Overwrite', description: 'Replace your definition. Predefined terms are never replaced.' },
+];
+
+interface PendingImport {
+  fileName: string;
+  terms: NamedExpression[];
+  conflicts: string[]; // Imported names that already exist with a different definition
+}
+
+function ReportSection({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className="font-medium">{title} ({items.length})</p>
+      <ul className="list-disc pl-5 text-muted-foreground">
+        {items.map(item => <li key={item} className="break-all">{item}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+// Export and import of the custom term library as a JSON file
+export function TermLibraryTransfer() {
+  const { customExpressions, importCustomExpressions, isLoading } = useLambda();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [resolution, setResolution] = useState<ImportConflictResolution>('skip');
+  const [report, setReport] = useState<TermLibraryImportReport | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([serializeTermLibrary(customExpressions)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'lambdavis-terms.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+    file.text()
+      .then(text => {
+        const terms = parseTermLibraryFile(text);
+        const knownTerms = [...predefinedExpressions, ...customExpressions];
+        const conflicts = terms
+          .filter(term => knownTerms.some(expr => expr.name === term.name && expr.lambda !== term.lambda))
+          .map(term => term.name);
+        setReport(null);
+        setPendingImport({ fileName: file.name, terms, conflicts });
+      })
+      .catch(error => {
+        toast({ title: "Import Failed", description: `${file.name}: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+      });
+  };
+
+  const handleImport = () => {
+    if (!pendingImport) return;
+    const importReport = importCustomExpressions(pendingImport.terms, resolution);
+    if (importReport) setReport(importReport);
+    else setPendingImport(null);
+  };
+
+  const closeDialog = () => {
+    setPendingImport(null);
+    setReport(null);
+  };
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Button onClick={handleExport} variant="outline" size="sm" disabled={customExpressions.length === 0}>
+          <Download className="mr-2 h-4 w-4" /> Export Library
+        </Button>
+        <Button onClick={() => fileInputRef.current?.click()} variant="outline" size="sm" disabled={isLoading}>
+          <Upload className="mr-2 h-4 w-4" /> Import Library
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChosen} />
+      </div>
+
+      <Dialog open={pendingImport !== null} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{report ? 'Import Report' : 'Import Term Library'}</DialogTitle>
+            <DialogDescription>
+              {pendingImport && `${pendingImport.fileName}: ${pendingImport.terms.length} term${pendingImport.terms.length === 1 ? '' : 's'}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {pendingImport && !report && (
+            <div className="space-y-3 text-sm">
+              {pendingImport.conflicts.length > 0 ? (
+                <>
+                  <p>
+                    {pendingImport.conflicts.length} name{pendingImport.conflicts.length === 1 ? ' is' : 's are'} already defined differently:{' '}
+                    <span className="font-mono break-all">{pendingImport.conflicts.map(name => `_${name}`).join(', ')}</span>
+                  </p>
+                  <RadioGroup value={resolution} onValueChange={(value) => setResolution(value as ImportConflictResolution)}>
+                    {CONFLICT_RESOLUTIONS.map(option => (
+                      <div key={option.id} className="flex items-start gap-2">
+                        <RadioGroupItem value={option.id} id={`import-${option.id}`} className="mt-0.5" />
+                        <Label htmlFor={`import-${option.id}`} className="font-normal leading-snug">
+                          <span className="font-medium">{option.label}</span> — {option.description}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </>
+              ) : (
+                <p>No name conflicts with your library.</p>
+              )}
+              <p className="text-muted-foreground">Every definition is checked by the parser; the ones that fail are listed afterwards.</p>
+            </div>
+          )}
+
+          {report && (
+            <ScrollArea className="max-h-[50vh]">
+              <div className="space-y-3 text-sm pr-3">
+                <ReportSection title="Added" items={report.added} />
+                <ReportSection title="Overwritten" items={report.overwritten} />
+                <ReportSection title="Renamed" items={report.renamed.map(({ from, to }) => `${from} → ${to}`)} />
+                <ReportSection title="Skipped" items={report.skipped} />
+                {report.failed.length > 0 && (
+                  <div>
+                    <p className="font-medium text-destructive">Failed ({report.failed.length})</p>
+                    <ul className="list-disc pl-5 text-muted-foreground">
+                      {report.failed.map(({ name, reason }, i) => (
+                        <li key={i} className="break-all"><span className="font-mono">{name}</span>: {reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+
+          <DialogFooter>
+            {report ? (
+              <Button onClick={closeDialog}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+                <Button onClick={handleImport}>Import</Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
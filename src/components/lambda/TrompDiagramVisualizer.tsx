@@ -4,10 +4,22 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useLambda } from '@/contexts/LambdaContext';
 import { generateTrompDiagramData, TrompDiagramRenderData } from '@/lib/lambda-calculus/tromp-diagram/renderer';
 import type { SvgElementData } from '@/lib/lambda-calculus/tromp-diagram/tromp-types';
-import type { ASTNodeId } from '@/lib/lambda-calculus/types';
+import { planTrompTransition, trompTransitionFrame } from '@/lib/lambda-calculus/tromp-diagram/transition';
+import type { TrompTransition, TrompTransitionFrame } from '@/lib/lambda-calculus/tromp-diagram/transition';
+import type { ASTNode, ASTNodeId } from '@/lib/lambda-calculus/types';
+import { useToast } from '@/hooks/use-toast';
+import { encodeBLC, blcToBytes, bytesToHex } from '@/lib/lambda-calculus/blc';
+import { trompDiagramTikz } from '@/lib/lambda-calculus/latex';
+import { playbackSpeedInfo } from '@/lib/playback';
+import { trompDiagramImage } from '@/lib/diagram-export';
+import type { DiagramImage } from '@/lib/diagram-export';
+import { DiagramExportMenu } from '@/components/lambda/DiagramExportMenu';
+import type { ExportHighlight } from '@/components/lambda/DiagramExportMenu';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { AlertTriangle, Info } from 'lucide-react';
 
 const primitiveColors: Record<string, string> = {
@@ -41,11 +53,40 @@ function getPrimitiveColor(primitiveName?: string): string | undefined {
 }
 
 const HIGHLIGHT_COLOR = "hsl(var(--ast-highlight-bg))";
+const ETA_HIGHLIGHT_COLOR = "hsl(var(--ast-eta-highlight-bg))";
 const SECONDARY_HIGHLIGHT_COLOR = "hsl(var(--ring))"; 
 const DEFAULT_STROKE_COLOR = "hsl(var(--foreground))";
+const REDEX_CANDIDATE_DASH = "0.3 0.15"; // In grid units, scaled with the viewBox
+const MAX_TRANSITION_ELEMENTS = 3000; // Larger diagrams are redrawn without a transition
+const EXPORT_GRID_SCALE = 12; // Pixels per grid unit in exported images
+
+// Stroke of a diagram element; `highlightColor` depends on the kind of the highlighted step
+function elementStroke(el: SvgElementData, autoScale: number, highlightColor: string): { stroke: string; strokeWidth: number } {
+  const baseStrokeW = Math.max(0.02, 1 / autoScale);
+  const highlightedStrokeW = Math.max(0.04, 2 / autoScale);
+  if (el.isHighlighted) return { stroke: highlightColor, strokeWidth: highlightedStrokeW };
+  if (el.isSecondaryHighlight) return { stroke: SECONDARY_HIGHLIGHT_COLOR, strokeWidth: highlightedStrokeW * 0.8 };
+  return { stroke: getPrimitiveColor(el.sourcePrimitiveName) || DEFAULT_STROKE_COLOR, strokeWidth: baseStrokeW };
+}
+
+// A step's diagram for export, with the redex contracted from it highlighted
+function trompStepImage(ast: ASTNode, highlight?: ExportHighlight): DiagramImage | null {
+  const data = generateTrompDiagramData(ast, EXPORT_GRID_SCALE, highlight?.redexId);
+  if (!data || data.svgElements.length === 0) return null;
+  const highlightColor = highlight && highlight.kind !== 'beta' ? ETA_HIGHLIGHT_COLOR : HIGHLIGHT_COLOR;
+  return trompDiagramImage(data, element => elementStroke(element, EXPORT_GRID_SCALE, highlightColor));
+}
+
+// A step's diagram as a TikZ picture
+function trompStepTikz(ast: ASTNode, highlight?: ExportHighlight): string | null {
+  const data = generateTrompDiagramData(ast, EXPORT_GRID_SCALE, highlight?.redexId);
+  if (!data || data.svgElements.length === 0) return null;
+  return trompDiagramTikz(data, { redexColor: highlight && highlight.kind !== 'beta' ? 'orange' : 'red' });
+}
 
 export function TrompDiagramVisualizer() {
-  const { currentAST, isLoading: contextIsLoading, error: contextError, highlightedRedexId } = useLambda();
+  const { currentAST, isLoading: contextIsLoading, error: contextError, highlightedRedexId, highlightedStepKind, redexIds, reduceRedex, etaExpandNode, astHistory, historySteps, historyIndex, playbackSpeed } = useLambda();
+  const transitionMs = playbackSpeedInfo(playbackSpeed).transitionMs;
   const [diagramData, setDiagramData] = useState<TrompDiagramRenderData | null>(null);
   const [internalLoading, setInternalLoading] = useState(false);
   const [internalError, setInternalError] = useState<string | null>(null);
@@ -53,6 +94,24 @@ export function TrompDiagramVisualizer() {
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerSize, setContainerSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
   const [autoScale, setAutoScale] = useState<number>(10); // Default scale
+  const { toast } = useToast();
+
+  // The diagram on screen, so that the diagram after the next step can be tweened from it
+  const shownDiagramRef = useRef<{ ast: ASTNode; data: TrompDiagramRenderData } | null>(null);
+  const [animateSteps, setAnimateSteps] = useState(true);
+  const [transition, setTransition] = useState<TrompTransition | null>(null);
+  const [transitionFrame, setTransitionFrame] = useState<TrompTransitionFrame | null>(null);
+
+  // Binary lambda calculus encoding of the current term; only closed terms have one
+  const blcEncoding = useMemo(() => {
+    if (!currentAST) return null;
+    try {
+      const bits = encodeBLC(currentAST);
+      return { bits, hex: bytesToHex(blcToBytes(bits)) };
+    } catch (e) {
+      return null; // Open terms have no BLC encoding
+    }
+  }, [currentAST]);
 
   // Effect for observing container size
   useEffect(() => {
@@ -100,6 +159,23 @@ export function TrompDiagramVisualizer() {
         const finalDiagramData = generateTrompDiagramData(currentAST, calculatedScale, highlightedRedexId);
         setDiagramData(finalDiagramData);
 
+        // A move one step forward in the history is animated, using the provenance the reducer recorded
+        const shown = shownDiagramRef.current;
+        const step = historySteps[historyIndex - 1];
+        if (
+          animateSteps && shown && finalDiagramData && step &&
+          shown.ast !== currentAST && astHistory[historyIndex - 1] === shown.ast &&
+          shown.data.svgElements.length + finalDiagramData.svgElements.length <= MAX_TRANSITION_ELEMENTS
+        ) {
+          const nextTransition = planTrompTransition(shown.data, finalDiagramData, step.provenance);
+          setTransition(nextTransition);
+          setTransitionFrame(trompTransitionFrame(nextTransition, 0));
+        } else if (shown?.ast !== currentAST) {
+          setTransition(null);
+          setTransitionFrame(null);
+        }
+        shownDiagramRef.current = finalDiagramData ? { ast: currentAST, data: finalDiagramData } : null;
+
       } catch (e: any) {
         console.error("Error generating Tromp diagram:", e);
         setInternalError(e.message || "Failed to generate Tromp diagram.");
@@ -111,8 +187,30 @@ export function TrompDiagramVisualizer() {
       setDiagramData(null);
       setInternalError(null);
       setAutoScale(10); 
+      shownDiagramRef.current = null;
+      setTransition(null);
+      setTransitionFrame(null);
     }
-  }, [currentAST, containerSize, highlightedRedexId]);
+  }, [currentAST, containerSize, highlightedRedexId, astHistory, historySteps, historyIndex, animateSteps]);
+
+  // Plays the current transition, one frame per animation frame
+  useEffect(() => {
+    if (!transition) return;
+    let frameId = 0;
+    const start = performance.now();
+    const tick = (now: number) => {
+      const progress = (now - start) / transitionMs;
+      if (progress >= 1) {
+        setTransition(null);
+        setTransitionFrame(null);
+        return;
+      }
+      setTransitionFrame(trompTransitionFrame(transition, progress));
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [transition, transitionMs]);
 
 
   const isLoading = contextIsLoading || internalLoading;
@@ -121,42 +219,71 @@ export function TrompDiagramVisualizer() {
   const memoizedSvgElements = useMemo(() => {
     if (!diagramData) return [];
     
-    const baseStrokeW = Math.max(0.02, 1 / autoScale); 
-    const highlightedStrokeW = Math.max(0.04, 2 / autoScale);
+    const redexIdSet = new Set(redexIds);
+    const highlightColor = highlightedStepKind && highlightedStepKind !== 'beta' ? ETA_HIGHLIGHT_COLOR : HIGHLIGHT_COLOR;
 
     return diagramData.svgElements.map((el: SvgElementData) => {
-      let strokeColor = getPrimitiveColor(el.sourcePrimitiveName) || DEFAULT_STROKE_COLOR;
-      let currentStrokeWidth = baseStrokeW;
-
-      if (el.isHighlighted) {
-        strokeColor = HIGHLIGHT_COLOR;
-        currentStrokeWidth = highlightedStrokeW;
-      } else if (el.isSecondaryHighlight) {
-        strokeColor = SECONDARY_HIGHLIGHT_COLOR;
-        currentStrokeWidth = highlightedStrokeW * 0.8; 
-      }
-      
       const commonProps = {
-        stroke: strokeColor, 
-        strokeWidth: currentStrokeWidth,
+        ...elementStroke(el, autoScale, highlightColor),
         fill: "none",
       };
       if (el.type === 'line') {
+        // Lines belong to lambdas and variables: the bar of an η-redex contracts it on click, and
+        // right-clicking any line η-expands its node
+        const isClickableRedex = !!el.nodeId && redexIdSet.has(el.nodeId);
+        const primitiveTitle = el.title
+          ? `${el.title} (Primitive: ${el.sourcePrimitiveName || 'N/A'})`
+          : el.sourcePrimitiveName ? `Primitive: ${el.sourcePrimitiveName}` : '';
+        const actionTitle = [isClickableRedex && 'Click to η-reduce', el.nodeId && 'Right-click to η-expand'].filter(Boolean).join(' · ');
+        const title = [primitiveTitle, actionTitle].filter(Boolean).join('\n');
         return (
-          <line
+          <g
             key={el.key}
-            x1={el.x1}
-            y1={el.y1}
-            x2={el.x2}
-            y2={el.y2}
-            {...commonProps}
-            className="transition-all duration-200" 
+            className={isClickableRedex ? "cursor-pointer" : undefined}
+            onClick={isClickableRedex ? () => reduceRedex(el.nodeId!) : undefined}
+            onContextMenu={el.nodeId ? (e) => {
+              e.preventDefault();
+              etaExpandNode(el.nodeId!);
+            } : undefined}
           >
-            {el.title && <title>{el.title} (Primitive: {el.sourcePrimitiveName || 'N/A'})</title>}
-            {!el.title && el.sourcePrimitiveName && <title>Primitive: {el.sourcePrimitiveName}</title>}
-          </line>
+            <line
+              x1={el.x1}
+              y1={el.y1}
+              x2={el.x2}
+              y2={el.y2}
+              {...commonProps}
+              strokeDasharray={isClickableRedex && !el.isHighlighted ? REDEX_CANDIDATE_DASH : undefined}
+              className="transition-all duration-200" 
+            />
+            {/* Wider invisible stroke so thin lines are easy to hit */}
+            <line x1={el.x1} y1={el.y1} x2={el.x2} y2={el.y2} stroke="transparent" strokeWidth={Math.max(0.3, 8 / autoScale)} pointerEvents="stroke">
+              {title && <title>{title}</title>}
+            </line>
+          </g>
         );
       } else if (el.type === 'polyline') {
+        // Application connectors of redexes can be clicked to contract that redex directly
+        const isClickableRedex = !!el.nodeId && redexIdSet.has(el.nodeId);
+        if (isClickableRedex) {
+          return (
+            <g
+              key={el.key}
+              className="cursor-pointer"
+              onClick={() => reduceRedex(el.nodeId!)}
+            >
+              <polyline
+                points={el.points}
+                {...commonProps}
+                strokeDasharray={el.isHighlighted ? undefined : REDEX_CANDIDATE_DASH}
+                className="transition-all duration-200"
+              />
+              {/* Wider invisible stroke so thin connectors are easy to hit */}
+              <polyline points={el.points} stroke="transparent" strokeWidth={Math.max(0.3, 8 / autoScale)} fill="none" pointerEvents="stroke">
+                <title>Click to contract this redex{el.sourcePrimitiveName ? ` (Primitive: ${el.sourcePrimitiveName})` : ''}</title>
+              </polyline>
+            </g>
+          );
+        }
         return (
           <polyline
             key={el.key}
@@ -170,13 +297,53 @@ export function TrompDiagramVisualizer() {
       }
       return null;
     });
-  }, [diagramData, autoScale]);
+  }, [diagramData, autoScale, redexIds, reduceRedex, highlightedStepKind, etaExpandNode]);
+
+  // Transition frames are drawn without interaction; the diagram is clickable again once it ends
+  const transitionElements = useMemo(() => {
+    if (!transitionFrame) return null;
+    const highlightColor = highlightedStepKind && highlightedStepKind !== 'beta' ? ETA_HIGHLIGHT_COLOR : HIGHLIGHT_COLOR;
+    return transitionFrame.elements.map(({ element: el, opacity }) => {
+      const props = { ...elementStroke(el, autoScale, highlightColor), fill: "none", opacity };
+      return el.type === 'line'
+        ? <line key={el.key} x1={el.x1} y1={el.y1} x2={el.x2} y2={el.y2} {...props} />
+        : <polyline key={el.key} points={el.points} {...props} />;
+    });
+  }, [transitionFrame, autoScale, highlightedStepKind]);
+
+  const shownFrame = transitionFrame ?? diagramData;
 
 
   return (
     <Card className="h-full flex flex-col">
       <CardHeader className="flex flex-row items-center justify-between pb-2 pt-4 shrink-0">
         <CardTitle className="text-xl font-semibold">Tromp Diagram</CardTitle>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <div className="flex items-center gap-2">
+            <Switch id="tromp-animate-steps" checked={animateSteps} onCheckedChange={setAnimateSteps} />
+            <Label htmlFor="tromp-animate-steps" className="text-xs text-muted-foreground font-normal" title="Animate each reduction step: the redex fades out and copies of the argument slide into place">Animate</Label>
+          </div>
+          {redexIds.length > 0 && (
+            <span>
+              {redexIds.length} redex{redexIds.length === 1 ? '' : 'es'} · click a dashed connector or bar to contract it · right-click a line to η-expand
+            </span>
+          )}
+          {blcEncoding && (
+            <button
+              type="button"
+              className="font-mono rounded-sm border px-1.5 py-0.5 hover:bg-accent hover:text-accent-foreground"
+              title={`BLC: ${blcEncoding.bits}\nBytes: ${blcEncoding.hex}\nClick to copy the bits`}
+              onClick={() => {
+                navigator.clipboard.writeText(blcEncoding.bits)
+                  .then(() => toast({ title: "BLC Copied", description: `${blcEncoding.bits.length} bits copied. Paste them into the expression input to decode.` }))
+                  .catch(() => toast({ title: "Copy Failed", description: "Could not access the clipboard.", variant: "destructive" }));
+              }}
+            >
+              {blcEncoding.bits.length} bits
+            </button>
+          )}
+          <DiagramExportMenu fileName="tromp-diagram" drawStep={trompStepImage} drawTikz={trompStepTikz} />
+        </div>
       </CardHeader>
       <CardContent ref={containerRef} className="flex-grow overflow-hidden p-0"> 
         <ScrollArea className="h-full w-full" viewportClassName="flex items-center justify-center">
@@ -206,18 +373,18 @@ export function TrompDiagramVisualizer() {
                 <p className="text-lg">Diagram will appear here.</p>
             </div>
           )}
-          {diagramData && diagramData.svgElements.length > 0 && (
+          {diagramData && shownFrame && diagramData.svgElements.length > 0 && (
             <svg
               key={`${currentAST?.id}-${highlightedRedexId || 'no-highlight'}`} 
-              width={diagramData.actualWidthPx}
-              height={diagramData.actualHeightPx}
-              viewBox={diagramData.viewBox}
+              width={shownFrame.actualWidthPx}
+              height={shownFrame.actualHeightPx}
+              viewBox={shownFrame.viewBox}
               xmlns="http://www.w3.org/2000/svg"
               className="transition-opacity duration-300 ease-in-out border border-dashed border-border" // Removed animate-trompDiagramFadeIn
               preserveAspectRatio="xMidYMid meet" 
             >
               <g transform="translate(0.5 0.5)"> 
-                {memoizedSvgElements}
+                {transitionElements ?? memoizedSvgElements}
               </g>
             </svg>
           )}
@@ -3,40 +3,151 @@
 import type { ASTNode, ASTNodeId } from '@/lib/lambda-calculus/types';
 import type { NamedExpression } from '@/lib/lambda-calculus/predefined';
 import { predefinedExpressions } from '@/lib/lambda-calculus/predefined';
-import { parse } from '@/lib/lambda-calculus/parser';
+import type { DataEncoding } from '@/lib/lambda-calculus/encodings';
+import { dataEncodings, predefinedExpressionsFor } from '@/lib/lambda-calculus/encodings';
+import { parse, parseProgram, programDefinitionsAsNamedExpressions, ParseError } from '@/lib/lambda-calculus/parser';
+import type { ParseDiagnostic } from '@/lib/lambda-calculus/parser';
 import { print } from '@/lib/lambda-calculus/printer';
-import { reduceStep, cloneAST, analyzeForRedex } from '@/lib/lambda-calculus/reducer'; // Added analyzeForRedex
+import type { PrintOptions } from '@/lib/lambda-calculus/printer';
+import { reduceStep, reduceRedexById, analyzeForRedex, findAllRedexes, findAllEtaRedexes, etaExpand, reductionStrategies } from '@/lib/lambda-calculus/reducer'; // Added analyzeForRedex
+import type { ReductionStrategy, ReductionKind } from '@/lib/lambda-calculus/reducer';
+import type { ProvenanceMap } from '@/lib/lambda-calculus/provenance';
 import { prettifyAST } from '@/lib/lambda-calculus/prettifier';
+import { hasTypeAnnotations } from '@/lib/lambda-calculus/system-f';
+import { checkTypes } from '@/lib/lambda-calculus/type-checker';
+import { DEFAULT_REDUCTION_BUDGET, canCrossCheck } from '@/lib/lambda-calculus/full-reduction';
+import type { ReductionBudget, EvaluationEngine, FullReductionProgress, FullReductionRequest, FullReductionResponse } from '@/lib/lambda-calculus/full-reduction';
+import { collectReferencedTerms, encodePermalinkFragment, decodePermalinkFragment } from '@/lib/permalink';
+import type { PermalinkState, PermalinkStep } from '@/lib/permalink';
+import { mergeTermLibrary } from '@/lib/term-library';
+import { playbackSpeedInfo } from '@/lib/playback';
+import type { PlaybackSpeed } from '@/lib/playback';
+import type { ImportConflictResolution, TermLibraryImportReport } from '@/lib/term-library';
 import React, { createContext, useContext, useState, ReactNode, useCallback, useEffect, useRef } from 'react';
 import { useToast } from "@/hooks/use-toast";
 
 const CUSTOM_EXPRESSIONS_STORAGE_KEY = 'lambdaVisCustomExpressions';
 
 const INITIAL_EXPRESSION = "(_PLUS) (_5) (_3)";
-const MAX_FULL_REDUCTION_STEPS = 5000;
 const PARSE_DEBOUNCE_DELAY = 300;
+const PERMALINK_SYNC_DELAY = 500;
+
+export type VisualizationTab = "tromp" | "experimental_tromp" | "ast" | "graph" | "machine" | "compare" | "help";
+const VISUALIZATION_TABS: VisualizationTab[] = ["tromp", "experimental_tromp", "ast", "graph", "machine", "compare", "help"];
+
+// A contraction, or an eta-expansion requested by the user
+export type HistoryStepKind = ReductionKind | 'eta-expansion';
+
+// What happened between astHistory[i] and astHistory[i + 1]
+interface HistoryStep {
+  redexId: ASTNodeId; // Redex of astHistory[i] that was contracted, or the node that was eta-expanded
+  kind: HistoryStepKind;
+  provenance: ProvenanceMap; // Which node of astHistory[i] each node of astHistory[i + 1] was copied from, and how
+}
+
+// A reduction path from a permalink, replayed once its expression has been parsed
+interface PendingHistoryRestore {
+  expression: string;
+  redexPath: PermalinkStep[];
+  historyIndex: number;
+}
+
+function collectNodeIds(node: ASTNode, ids: ASTNodeId[] = []): ASTNodeId[] {
+  ids.push(node.id);
+  if (node.type === 'lambda') collectNodeIds(node.body, ids);
+  else if (node.type === 'application') {
+    collectNodeIds(node.func, ids);
+    collectNodeIds(node.arg, ids);
+  }
+  return ids;
+}
+
+// Encodes a recorded step by position, see PermalinkStep
+function encodeHistoryStep(ast: ASTNode, step: HistoryStep): PermalinkStep | null {
+  const position = step.kind === 'beta' ? findAllRedexes(ast).indexOf(step.redexId)
+    : step.kind === 'eta' ? findAllEtaRedexes(ast).indexOf(step.redexId)
+    : collectNodeIds(ast).indexOf(step.redexId);
+  if (position < 0) return null;
+  return step.kind === 'beta' ? position : `${step.kind === 'eta' ? 'e' : 'x'}${position}`;
+}
+
+// Re-applies the steps at the given pre-order positions. Stops early if a position no longer
+// names a redex or node (e.g. the linked custom terms differ from the local ones).
+function replayRedexPath(ast: ASTNode, redexPath: PermalinkStep[]): { astHistory: ASTNode[]; historySteps: HistoryStep[] } {
+  const astHistory: ASTNode[] = [ast];
+  const historySteps: HistoryStep[] = [];
+  let current = ast;
+  for (const encodedStep of redexPath) {
+    const kind: HistoryStepKind = typeof encodedStep === 'number' ? 'beta' : encodedStep.startsWith('e') ? 'eta' : 'eta-expansion';
+    const position = typeof encodedStep === 'number' ? encodedStep : parseInt(encodedStep.slice(1), 10);
+    const candidates = kind === 'beta' ? findAllRedexes(current) : kind === 'eta' ? findAllEtaRedexes(current) : collectNodeIds(current);
+    const redexId = candidates[position];
+    if (!redexId) break;
+    const { newAst, changed, provenance } = kind === 'eta-expansion' ? etaExpand(current, redexId) : reduceRedexById(current, redexId);
+    if (!changed) break;
+    historySteps.push({ redexId, kind, provenance });
+    astHistory.push(newAst);
+    current = newAst;
+  }
+  return { astHistory, historySteps };
+}
 
 interface LambdaState {
   rawExpression: string;
   currentAST: ASTNode | null;
   astHistory: (ASTNode | null)[];
+  historySteps: HistoryStep[];
+  historyIndex: number; // Position of currentAST within astHistory
   error: string | null;
+  errorDiagnostics: ParseDiagnostic[]; // Source positions of parse errors in rawExpression
   isLoading: boolean;
   reducedExpressionString: string;
   fullyReducedString: string;
   prettifiedExpressionString: string;
   isReducible: boolean;
   highlightedRedexId?: ASTNodeId;
+  highlightedStepKind?: HistoryStepKind; // What happens at highlightedRedexId
+  redexIds: ASTNodeId[]; // Every redex in currentAST, whichever the strategy would pick
   customExpressions: NamedExpression[];
+  scriptDefinitions: NamedExpression[]; // Terms defined by `let`/`:=` lines of the current input
+  reductionStrategy: ReductionStrategy;
+  etaReduction: boolean; // Whether eta-redexes are contracted alongside beta-redexes
+  dataEncoding: DataEncoding; // How `_N` numerals and the predefined data terms are encoded
+  printOptions: PrintOptions; // How the current, prettified and normal forms are displayed
+  activeTab: VisualizationTab;
+  reductionBudget: ReductionBudget; // Limits for "Reduce to Normal Form"
+  evaluationEngine: EvaluationEngine; // Engine used by "Reduce to Normal Form"
+  crossCheckEngines: boolean; // Also run the other engine and compare the normal forms
+  fullReductionProgress: FullReductionProgress | null; // Set while a full reduction runs
+  playbackSpeed: PlaybackSpeed; // Auto-play interval and step animation duration
+  isAutoPlaying: boolean; // Stepping on its own until the term is in normal form
 }
 
 interface LambdaContextType extends LambdaState {
   setRawExpression: (value: string | ((prevState: string) => string)) => void;
   performReductionStep: () => void;
+  reduceRedex: (redexId: ASTNodeId) => void;
+  etaExpandNode: (nodeId: ASTNodeId) => void;
+  goToHistoryStep: (index: number) => void;
+  stepBackward: () => void;
+  stepForward: () => void;
   reduceToNormalForm: () => void;
+  cancelFullReduction: () => void;
+  setReductionBudget: (budget: Partial<ReductionBudget>) => void;
+  setEvaluationEngine: (engine: EvaluationEngine) => void;
+  setCrossCheckEngines: (enabled: boolean) => void;
   resetState: (initialExpression?: string) => void;
   addCustomExpression: (name: string, lambda: string) => boolean;
   removeCustomExpression: (name: string) => void;
+  importCustomExpressions: (terms: NamedExpression[], resolution: ImportConflictResolution) => TermLibraryImportReport | null;
+  setReductionStrategy: (strategy: ReductionStrategy) => void;
+  setEtaReduction: (enabled: boolean) => void;
+  setDataEncoding: (encoding: DataEncoding) => void;
+  setPrintOptions: (options: Partial<PrintOptions>) => void;
+  setActiveTab: (tab: VisualizationTab) => void;
+  setPlaybackSpeed: (speed: PlaybackSpeed) => void;
+  setAutoPlaying: (playing: boolean) => void;
+  getPermalink: () => Promise<string>;
 }
 
 const LambdaContext = createContext<LambdaContextType | undefined>(undefined);
@@ -46,25 +157,107 @@ export const LambdaProvider: React.FC<{ children: ReactNode }> = ({ children })
     rawExpression: INITIAL_EXPRESSION,
     currentAST: null,
     astHistory: [],
+    historySteps: [],
+    historyIndex: 0,
     error: null,
+    errorDiagnostics: [],
     isLoading: false,
     reducedExpressionString: "",
     fullyReducedString: "",
     prettifiedExpressionString: "",
     isReducible: false,
     highlightedRedexId: undefined,
+    highlightedStepKind: undefined,
+    redexIds: [],
     customExpressions: [],
+    scriptDefinitions: [],
+    reductionStrategy: 'normal',
+    etaReduction: false,
+    dataEncoding: 'church',
+    printOptions: { compactLambdas: false, notation: 'named' },
+    activeTab: "tromp",
+    reductionBudget: DEFAULT_REDUCTION_BUDGET,
+    evaluationEngine: 'substitution',
+    crossCheckEngines: false,
+    fullReductionProgress: null,
+    playbackSpeed: 'normal',
+    isAutoPlaying: false,
   });
 
   const { toast } = useToast();
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const permalinkTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // While a permalink is being restored the URL fragment must not be overwritten
+  const isDecodingPermalinkRef = useRef(false);
+  const pendingHistoryRestoreRef = useRef<PendingHistoryRestore | null>(null);
+  const fullReductionWorkerRef = useRef<Worker | null>(null);
+
+  useEffect(() => () => fullReductionWorkerRef.current?.terminate(), []);
+
+  // A running full reduction belongs to the term it started from; callers showing another term stop it
+  const stopFullReductionWorker = () => {
+    fullReductionWorkerRef.current?.terminate();
+    fullReductionWorkerRef.current = null;
+  };
+
+  // Restores a shared session from the URL fragment. Linked terms missing from the library are added
+  // to it; a local term with the same name but a different definition is kept and reported.
+  const restorePermalink = (library: NamedExpression[]) => {
+    const fragment = window.location.hash;
+    if (!fragment) return;
+    isDecodingPermalinkRef.current = true;
+    decodePermalinkFragment(fragment)
+      .then(restored => {
+        if (!restored) return;
+        const knownTerms = [...predefinedExpressions, ...library];
+        const addedTerms = restored.customTerms.filter(term => !knownTerms.some(expr => expr.name === term.name));
+        const conflictingNames = restored.customTerms
+          .filter(term => knownTerms.some(expr => expr.name === term.name && expr.lambda !== term.lambda))
+          .map(term => term.name);
+        if (addedTerms.length > 0) {
+          try {
+            localStorage.setItem(CUSTOM_EXPRESSIONS_STORAGE_KEY, JSON.stringify([...library, ...addedTerms]));
+          } catch (error) {
+            console.error("Failed to save shared custom expressions to localStorage:", error);
+          }
+        }
+
+        pendingHistoryRestoreRef.current = { expression: restored.expression, redexPath: restored.redexPath, historyIndex: restored.historyIndex };
+        setState(prevState => ({
+          ...prevState,
+          rawExpression: restored.expression,
+          // Always a new array, so the expression is re-parsed and the path replayed even if nothing else changed
+          customExpressions: [...prevState.customExpressions, ...addedTerms],
+          fullyReducedString: "",
+          reductionStrategy: reductionStrategies.find(strategy => strategy.id === restored.strategy)?.id ?? prevState.reductionStrategy,
+          etaReduction: restored.etaReduction,
+          dataEncoding: dataEncodings.find(encoding => encoding.id === restored.encoding)?.id ?? 'church',
+          activeTab: VISUALIZATION_TABS.find(tab => tab === restored.activeTab) ?? prevState.activeTab,
+        }));
+
+        if (conflictingNames.length > 0) {
+          toast({ title: "Shared Terms Differ", description: `Kept your own definition of ${conflictingNames.map(name => `_${name}`).join(', ')}; the shared steps may not replay exactly.`, variant: "destructive" });
+        } else if (addedTerms.length > 0) {
+          toast({ title: "Shared Terms Added", description: `Added ${addedTerms.map(term => `_${term.name}`).join(', ')} from the link to your custom terms.`, variant: "default" });
+        }
+      })
+      .catch(error => {
+        console.error("Failed to restore state from the URL:", error);
+        toast({ title: "Invalid Link", description: `Could not restore the shared state: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+      })
+      .finally(() => {
+        isDecodingPermalinkRef.current = false;
+      });
+  };
 
   useEffect(() => {
+    let library: NamedExpression[] = [];
     try {
       const storedCustomExpressions = localStorage.getItem(CUSTOM_EXPRESSIONS_STORAGE_KEY);
       if (storedCustomExpressions) {
         const parsedExpressions: NamedExpression[] = JSON.parse(storedCustomExpressions);
         if (Array.isArray(parsedExpressions) && parsedExpressions.every(item => typeof item.name === 'string' && typeof item.lambda === 'string')) {
+            library = parsedExpressions;
             setState(prevState => ({ ...prevState, customExpressions: parsedExpressions }));
         } else {
             console.warn("Invalid custom expressions found in localStorage. Clearing.");
@@ -75,47 +268,75 @@ export const LambdaProvider: React.FC<{ children: ReactNode }> = ({ children })
       console.error("Failed to load custom expressions from localStorage:", error);
       toast({ title: "Error", description: "Could not load custom terms from local storage.", variant: "destructive" });
     }
+    restorePermalink(library);
   }, [toast]);
 
   const updatePrettifiedString = useCallback((ast: ASTNode | null, currentCustomExprs: NamedExpression[]) => {
     if (ast) {
-      const prettified = prettifyAST(ast, currentCustomExprs, predefinedExpressions);
-      setState(prevState => ({ ...prevState, prettifiedExpressionString: prettified }));
+      setState(prevState => ({ ...prevState, prettifiedExpressionString: prettifyAST(ast, currentCustomExprs, predefinedExpressionsFor(prevState.dataEncoding), prevState.printOptions, prevState.dataEncoding) }));
     } else {
       setState(prevState => ({ ...prevState, prettifiedExpressionString: "" }));
     }
   }, []);
 
 
-  const parseAndSetAST = useCallback((expression: string, currentCustomExpressions: NamedExpression[]) => {
-    setState(prevState => ({ ...prevState, isLoading: true, error: null, fullyReducedString: "" }));
+  const parseAndSetAST = useCallback((expression: string, currentCustomExpressions: NamedExpression[], encoding: DataEncoding) => {
+    // A parse of some other expression (e.g. a debounce scheduled before the link was read) leaves it pending
+    const historyRestore = pendingHistoryRestoreRef.current?.expression === expression ? pendingHistoryRestoreRef.current : null;
+    if (historyRestore) pendingHistoryRestoreRef.current = null;
+    stopFullReductionWorker();
+    setState(prevState => ({ ...prevState, isLoading: true, error: null, errorDiagnostics: [], fullyReducedString: "", fullReductionProgress: null, isAutoPlaying: false }));
     try {
-      const ast = parse(expression, currentCustomExpressions);
-      const printedAst = print(ast);
-      const analysis = analyzeForRedex(ast); // Use analyzeForRedex
-
-      setState(prevState => ({
-        ...prevState,
-        currentAST: ast,
-        astHistory: [ast],
-        reducedExpressionString: printedAst,
-        error: null,
-        isLoading: false,
-        isReducible: analysis.isReducible,
-        highlightedRedexId: analysis.redexId,
-      }));
-      updatePrettifiedString(ast, currentCustomExpressions);
+      const program = parseProgram(expression, currentCustomExpressions, encoding);
+      const scriptDefinitions = programDefinitionsAsNamedExpressions(program);
+      if (!program.body) {
+        throw new Error(`Defined ${scriptDefinitions.map(def => `_${def.name}`).join(', ') || 'nothing'}, but the script has no final expression to evaluate.`);
+      }
+      // A typed term must type-check before it is reduced; checkTypes throws a TypeCheckError otherwise
+      if (hasTypeAnnotations(program.body)) checkTypes(program.body);
+      const { astHistory, historySteps } = historyRestore
+        ? replayRedexPath(program.body, historyRestore.redexPath)
+        : { astHistory: [program.body], historySteps: [] };
+      const historyIndex = historyRestore ? Math.min(Math.max(historyRestore.historyIndex, 0), astHistory.length - 1) : 0;
+      const ast = astHistory[historyIndex];
+      setState(prevState => {
+        const analysis = analyzeForRedex(ast, prevState.reductionStrategy, prevState.etaReduction);
+        const printedAst = print(ast, 'top', prevState.printOptions);
+        const recordedStep = historySteps[historyIndex];
+        return {
+          ...prevState,
+          currentAST: ast,
+          scriptDefinitions,
+          astHistory,
+          historySteps,
+          historyIndex,
+          reducedExpressionString: printedAst,
+          error: null,
+          isLoading: false,
+          isReducible: analysis.isReducible,
+          highlightedRedexId: recordedStep ? recordedStep.redexId : analysis.redexId,
+          highlightedStepKind: recordedStep ? recordedStep.kind : analysis.kind,
+          redexIds: findAllRedexes(ast, prevState.etaReduction),
+        };
+      });
+      updatePrettifiedString(ast, [...currentCustomExpressions, ...scriptDefinitions]);
     } catch (e: any) {
       const errorMessage = e instanceof Error ? e.message : String(e);
       setState(prevState => ({
         ...prevState,
         currentAST: null,
+        scriptDefinitions: [],
         astHistory: [],
+        historySteps: [],
+        historyIndex: 0,
         error: errorMessage,
+        errorDiagnostics: e instanceof ParseError ? e.diagnostics : [],
         isLoading: false,
         reducedExpressionString: "Error",
         isReducible: false,
         highlightedRedexId: undefined,
+        highlightedStepKind: undefined,
+        redexIds: [],
       }));
       updatePrettifiedString(null, currentCustomExpressions);
       // toast({ title: "Parse Error", description: errorMessage, variant: "destructive" });
@@ -125,6 +346,7 @@ export const LambdaProvider: React.FC<{ children: ReactNode }> = ({ children })
   useEffect(() => {
     const currentRawExpr = state.rawExpression;
     const currentCustomExprs = state.customExpressions;
+    const currentEncoding = state.dataEncoding;
 
     if (debounceTimerRef.current) {
       clearTimeout(debounceTimerRef.current);
@@ -138,14 +360,20 @@ export const LambdaProvider: React.FC<{ children: ReactNode }> = ({ children })
         return {
           ...prevState,
           currentAST: null,
+          scriptDefinitions: [],
           astHistory: [],
+          historySteps: [],
+          historyIndex: 0,
           error: null,
+          errorDiagnostics: [],
           isLoading: false,
           reducedExpressionString: "",
           fullyReducedString: "",
           prettifiedExpressionString: "",
           isReducible: false,
           highlightedRedexId: undefined,
+          highlightedStepKind: undefined,
+          redexIds: [],
         };
       });
       updatePrettifiedString(null, currentCustomExprs);
@@ -154,7 +382,7 @@ export const LambdaProvider: React.FC<{ children: ReactNode }> = ({ children })
 
     debounceTimerRef.current = setTimeout(() => {
       if (typeof currentRawExpr === 'string') {
-        parseAndSetAST(currentRawExpr, currentCustomExprs);
+        parseAndSetAST(currentRawExpr, currentCustomExprs, currentEncoding);
       }
     }, PARSE_DEBOUNCE_DELAY);
 
@@ -163,14 +391,84 @@ export const LambdaProvider: React.FC<{ children: ReactNode }> = ({ children })
         clearTimeout(debounceTimerRef.current);
       }
     };
-  }, [state.rawExpression, state.customExpressions, parseAndSetAST, updatePrettifiedString]);
+  }, [state.rawExpression, state.customExpressions, state.dataEncoding, parseAndSetAST, updatePrettifiedString]);
+
+
+  // The shareable part of the current state, with the history recorded as redex positions
+  const buildPermalinkState = (): PermalinkState => ({
+    expression: state.rawExpression,
+    customTerms: collectReferencedTerms(state.rawExpression, state.customExpressions),
+    activeTab: state.activeTab,
+    strategy: state.reductionStrategy,
+    etaReduction: state.etaReduction,
+    encoding: state.dataEncoding,
+    redexPath: state.historySteps.map((step, i) => {
+      const ast = state.astHistory[i];
+      return ast ? encodeHistoryStep(ast, step) : null;
+    }).filter((step): step is PermalinkStep => step !== null),
+    historyIndex: state.historyIndex,
+  });
 
+  // Keeps the URL fragment in sync, so the address bar is always a permalink to what is shown
+  useEffect(() => {
+    if (permalinkTimerRef.current) {
+      clearTimeout(permalinkTimerRef.current);
+    }
+    if (isDecodingPermalinkRef.current || pendingHistoryRestoreRef.current) return;
+    const permalinkState = buildPermalinkState();
+    permalinkTimerRef.current = setTimeout(() => {
+      encodePermalinkFragment(permalinkState)
+        .then(fragment => window.history.replaceState(null, '', fragment))
+        .catch(error => console.error("Failed to update the URL:", error));
+    }, PERMALINK_SYNC_DELAY);
+
+    return () => {
+      if (permalinkTimerRef.current) {
+        clearTimeout(permalinkTimerRef.current);
+      }
+    };
+  }, [state.rawExpression, state.customExpressions, state.activeTab, state.reductionStrategy, state.etaReduction, state.dataEncoding, state.astHistory, state.historySteps, state.historyIndex]);
+
+  const getPermalink = async (): Promise<string> => {
+    const { origin, pathname, search } = window.location;
+    return `${origin}${pathname}${search}${await encodePermalinkFragment(buildPermalinkState())}`;
+  };
+
+  const setActiveTab = (tab: VisualizationTab) => {
+    setState(prevState => ({ ...prevState, activeTab: tab }));
+  };
+
+  // Library terms plus the current script's definitions, for recognizing named sub-terms
+  const termsInScope = [...state.customExpressions, ...state.scriptDefinitions];
 
   const setRawExpression = (value: string | ((prevState: string) => string)) => {
     const newRawExpression = typeof value === 'function' ? value(state.rawExpression) : value;
     setState(prevState => ({ ...prevState, rawExpression: newRawExpression, fullyReducedString: "" }));
   };
 
+  // Records a freshly reduced AST as the next history entry and re-analyzes it for the active strategy.
+  // Reducing from an earlier step discards the steps after it, like typing after an undo.
+  const commitReducedAST = (reducedAST: ASTNode, contractedRedexId: ASTNodeId, kind: HistoryStepKind, provenance: ProvenanceMap) => {
+    stopFullReductionWorker();
+    const nextAnalysis = analyzeForRedex(reducedAST, state.reductionStrategy, state.etaReduction); // Analyze the newly reduced AST
+    setState(prevState => ({
+      ...prevState,
+      currentAST: reducedAST,
+      astHistory: [...prevState.astHistory.slice(0, prevState.historyIndex + 1), reducedAST],
+      historySteps: [...prevState.historySteps.slice(0, prevState.historyIndex), { redexId: contractedRedexId, kind, provenance }],
+      historyIndex: prevState.historyIndex + 1,
+      reducedExpressionString: print(reducedAST, 'top', state.printOptions),
+      isLoading: false,
+      error: null,
+      isReducible: nextAnalysis.isReducible,
+      highlightedRedexId: nextAnalysis.redexId,
+      highlightedStepKind: nextAnalysis.kind,
+      redexIds: findAllRedexes(reducedAST, state.etaReduction),
+      fullReductionProgress: null,
+    }));
+    updatePrettifiedString(reducedAST, termsInScope);
+  };
+
   const performReductionStep = () => {
     if (!state.currentAST || !state.isReducible) {
       toast({ title: "Cannot Reduce", description: "Expression is not reducible or no AST.", variant: "default" });
@@ -179,84 +477,261 @@ export const LambdaProvider: React.FC<{ children: ReactNode }> = ({ children })
     setState(prevState => ({ ...prevState, isLoading: true, fullyReducedString: "" }));
     try {
       const astToReduce = state.currentAST;
-      const { newAst: reducedAST, changed: wasReduced } = reduceStep(astToReduce);
+      const { newAst: reducedAST, changed: wasReduced, redexId: contractedRedexId, kind, provenance } = reduceStep(astToReduce, state.reductionStrategy, state.etaReduction);
 
-      if (wasReduced) {
-        const nextAnalysis = analyzeForRedex(reducedAST); // Analyze the newly reduced AST
-        setState(prevState => ({
-          ...prevState,
-          currentAST: reducedAST,
-          astHistory: [...prevState.astHistory, reducedAST],
-          reducedExpressionString: print(reducedAST),
-          isLoading: false,
-          error: null,
-          isReducible: nextAnalysis.isReducible,
-          highlightedRedexId: nextAnalysis.redexId,
-        }));
-        updatePrettifiedString(reducedAST, state.customExpressions);
+      if (wasReduced && contractedRedexId && kind) {
+        commitReducedAST(reducedAST, contractedRedexId, kind, provenance);
       } else {
         toast({ title: "Normal Form", description: "Expression is in normal form.", variant: "default" });
         setState(prevState => ({ ...prevState, isLoading: false, isReducible: false, highlightedRedexId: undefined }));
-        updatePrettifiedString(state.currentAST, state.customExpressions);
+        updatePrettifiedString(state.currentAST, termsInScope);
+      }
+    } catch (e: any) {
+      const errorMessage = e instanceof Error ? e.message : String(e);
+      toast({ title: "Reduction Error", description: errorMessage, variant: "destructive" });
+      setState(prevState => ({ ...prevState, error: errorMessage, isLoading: false, isReducible: false, highlightedRedexId: undefined }));
+       updatePrettifiedString(state.currentAST, termsInScope);
+    }
+  };
+
+  const reduceRedex = (redexId: ASTNodeId) => {
+    if (!state.currentAST || !state.redexIds.includes(redexId)) {
+      toast({ title: "Cannot Reduce", description: "The selected node is not a redex of the current expression.", variant: "default" });
+      return;
+    }
+    setState(prevState => ({ ...prevState, isLoading: true, fullyReducedString: "" }));
+    try {
+      const { newAst: reducedAST, changed: wasReduced, kind, provenance } = reduceRedexById(state.currentAST, redexId);
+      if (wasReduced && kind) {
+        commitReducedAST(reducedAST, redexId, kind, provenance);
+      } else {
+        setState(prevState => ({ ...prevState, isLoading: false }));
       }
     } catch (e: any) {
       const errorMessage = e instanceof Error ? e.message : String(e);
       toast({ title: "Reduction Error", description: errorMessage, variant: "destructive" });
       setState(prevState => ({ ...prevState, error: errorMessage, isLoading: false, isReducible: false, highlightedRedexId: undefined }));
-       updatePrettifiedString(state.currentAST, state.customExpressions);
     }
   };
 
+  // Replaces a node N of the current term by λx.N x and records that as a step
+  const etaExpandNode = (nodeId: ASTNodeId) => {
+    if (!state.currentAST) return;
+    const { newAst, changed, provenance } = etaExpand(state.currentAST, nodeId);
+    if (!changed) {
+      toast({ title: "Cannot Expand", description: "The selected node is not part of the current expression.", variant: "default" });
+      return;
+    }
+    setState(prevState => ({ ...prevState, fullyReducedString: "" }));
+    commitReducedAST(newAst, nodeId, 'eta-expansion', provenance);
+  };
+
+  // Shows a recorded step. Past steps highlight the redex that was actually contracted from them;
+  // the latest step highlights the redex the active strategy would pick next.
+  const goToHistoryStep = (index: number) => {
+    if (index < 0 || index >= state.astHistory.length || index === state.historyIndex) return;
+    const historicalAST = state.astHistory[index];
+    if (!historicalAST) return;
+    const analysis = analyzeForRedex(historicalAST, state.reductionStrategy, state.etaReduction);
+    const recordedStep = state.historySteps[index];
+    stopFullReductionWorker();
+    setState(prevState => ({
+      ...prevState,
+      currentAST: historicalAST,
+      historyIndex: index,
+      reducedExpressionString: print(historicalAST, 'top', state.printOptions),
+      fullyReducedString: "",
+      fullReductionProgress: null,
+      isLoading: false,
+      error: null,
+      isReducible: analysis.isReducible,
+      highlightedRedexId: recordedStep ? recordedStep.redexId : analysis.redexId,
+      highlightedStepKind: recordedStep ? recordedStep.kind : analysis.kind,
+      redexIds: findAllRedexes(historicalAST, state.etaReduction),
+    }));
+    updatePrettifiedString(historicalAST, termsInScope);
+  };
+
+  const stepBackward = () => goToHistoryStep(state.historyIndex - 1);
+  const stepForward = () => goToHistoryStep(state.historyIndex + 1);
+
+  // Auto-play replays the recorded steps ahead first, then reduces with the active strategy. It stops
+  // at a normal form, on an error, or when a full reduction is started.
+  useEffect(() => {
+    if (!state.isAutoPlaying) return;
+    const hasRecordedStep = state.historyIndex < state.astHistory.length - 1;
+    if ((!hasRecordedStep && !state.isReducible) || !state.currentAST || state.error || state.fullReductionProgress) {
+      setState(prevState => ({ ...prevState, isAutoPlaying: false }));
+      return;
+    }
+    const timer = setTimeout(hasRecordedStep ? stepForward : performReductionStep, playbackSpeedInfo(state.playbackSpeed).stepIntervalMs);
+    return () => clearTimeout(timer);
+  }, [state.isAutoPlaying, state.playbackSpeed, state.currentAST, state.historyIndex, state.astHistory, state.isReducible, state.error, state.fullReductionProgress, state.reductionStrategy, state.etaReduction]);
+
+  // Runs the full reduction in a Web Worker so that long reductions keep the page responsive.
+  // The worker streams progress; its result is only displayed, the current step stays as it is.
   const reduceToNormalForm = () => {
     if (!state.currentAST) {
       toast({ title: "Cannot Reduce", description: "No AST to reduce.", variant: "default" });
       setState(prevState => ({ ...prevState, fullyReducedString: "Error: No AST" }));
       return;
     }
-    setState(prevState => ({ ...prevState, isLoading: true, fullyReducedString: "Reducing..." }));
+    stopFullReductionWorker();
+    setState(prevState => ({ ...prevState, isLoading: true, fullyReducedString: "Reducing...", fullReductionProgress: { steps: 0, size: 0, elapsedMillis: 0 } }));
 
-    let astForFullReduction = cloneAST(state.currentAST); // Clone for full reduction process
-    let steps = 0;
-    let reducibleCurrent = true;
-    let tempAstHistoryForFullReduction: ASTNode[] = [astForFullReduction];
+    const printOptions = state.printOptions;
+    const budget = state.reductionBudget;
+    const worker = new Worker(new URL('../workers/full-reduction.worker.ts', import.meta.url));
+    fullReductionWorkerRef.current = worker;
 
-    try {
-      while (reducibleCurrent && steps < MAX_FULL_REDUCTION_STEPS) {
-        const { newAst, changed } = reduceStep(astForFullReduction);
-        if (changed) {
-          astForFullReduction = newAst;
-          tempAstHistoryForFullReduction.push(astForFullReduction);
-          steps++;
-        } else {
-          reducibleCurrent = false;
-        }
+    const fail = (errorMessage: string) => {
+      stopFullReductionWorker();
+      toast({ title: "Full ReductionError", description: errorMessage, variant: "destructive" });
+      setState(prevState => ({ ...prevState, isLoading: false, fullyReducedString: `Error: ${errorMessage}`, fullReductionProgress: null }));
+    };
+
+    worker.onmessage = (event: MessageEvent<FullReductionResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        setState(prevState => ({ ...prevState, fullReductionProgress: response.progress }));
+        return;
+      }
+      if (response.type === 'error') {
+        fail(response.message);
+        return;
       }
 
-      const finalString = print(astForFullReduction);
+      stopFullReductionWorker();
+      const { ast, outcome, steps, size, crossCheck } = response.result;
       setState(prevState => ({
         ...prevState,
         isLoading: false,
-        fullyReducedString: finalString,
-        // Optionally update currentAST to the fully reduced form if desired,
-        // but this might skip showing intermediate steps for subsequent "Reduce Step" clicks.
-        // For now, just display the result and keep currentAST as is from step-by-step.
+        fullyReducedString: print(ast, 'top', printOptions),
+        fullReductionProgress: null,
       }));
 
-      if (steps === MAX_FULL_REDUCTION_STEPS && reducibleCurrent) {
-        toast({ title: "Max Steps Reached", description: `Reduction stopped after ${MAX_FULL_REDUCTION_STEPS} steps. Result may not be normal form.`, variant: "destructive" });
-      } else if (!reducibleCurrent) {
-        toast({ title: "Normal Form Reached", description: `Reduced to normal form in ${steps} step(s).`, variant: "default" });
+      const seconds = (budget.maxMillis / 1000).toLocaleString();
+      switch (outcome) {
+        case 'normal-form':
+          toast({ title: "Normal Form Reached", description: `No redex left for the selected strategy after ${steps} step(s).`, variant: "default" });
+          break;
+        case 'loop':
+          toast({ title: "Reduction Loops", description: `After ${steps} step(s) the next step reproduces the same term (up to α-equivalence). It has no normal form under the selected strategy.`, variant: "destructive" });
+          break;
+        case 'max-steps':
+          toast({ title: "Max Steps Reached", description: `Reduction stopped after ${budget.maxSteps} steps. Result may not be normal form.`, variant: "destructive" });
+          break;
+        case 'timeout':
+          toast({ title: "Time Limit Reached", description: `Reduction stopped after ${seconds} s and ${steps} step(s). Result may not be normal form.`, variant: "destructive" });
+          break;
+        case 'max-size':
+          toast({ title: "Size Limit Reached", description: `After ${steps} step(s) the term has ${size} nodes, more than the limit of ${budget.maxSize}. Result may not be normal form.`, variant: "destructive" });
+          break;
       }
-    } catch (e: any) {
-      const errorMessage = e instanceof Error ? e.message : String(e);
-      toast({ title: "Full ReductionError", description: errorMessage, variant: "destructive" });
-      setState(prevState => ({ ...prevState, isLoading: false, fullyReducedString: `Error: ${errorMessage}` }));
-    }
+      if (crossCheck === 'equal') {
+        toast({ title: "Engines Agree", description: "Both evaluation engines reached the same normal form (up to α-equivalence).", variant: "default" });
+      } else if (crossCheck === 'different') {
+        toast({ title: "Engines Disagree", description: "The evaluation engines reached different normal forms.", variant: "destructive" });
+      } else if (crossCheck === 'inconclusive') {
+        toast({ title: "Cross-Check Inconclusive", description: "One of the engines stopped before reaching a normal form, so the results could not be compared.", variant: "default" });
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      fail(event.message || "The reduction worker failed.");
+    };
+
+    const request: FullReductionRequest = {
+      type: 'start',
+      ast: state.currentAST,
+      strategy: state.reductionStrategy,
+      etaReduction: state.etaReduction,
+      engine: state.evaluationEngine,
+      crossCheck: state.crossCheckEngines && canCrossCheck(state.evaluationEngine, state.reductionStrategy),
+      budget,
+    };
+    worker.postMessage(request);
+  };
+
+  const cancelFullReduction = () => {
+    if (!fullReductionWorkerRef.current) return;
+    stopFullReductionWorker();
+    setState(prevState => ({ ...prevState, isLoading: false, fullyReducedString: "", fullReductionProgress: null }));
+    toast({ title: "Reduction Cancelled", description: "The full reduction was stopped.", variant: "default" });
+  };
+
+  const setReductionBudget = (budget: Partial<ReductionBudget>) => {
+    setState(prevState => ({ ...prevState, reductionBudget: { ...prevState.reductionBudget, ...budget } }));
+  };
+
+  const setEvaluationEngine = (engine: EvaluationEngine) => {
+    setState(prevState => ({ ...prevState, evaluationEngine: engine, fullyReducedString: "" }));
+  };
+
+  const setCrossCheckEngines = (enabled: boolean) => {
+    setState(prevState => ({ ...prevState, crossCheckEngines: enabled }));
+  };
+
+  const setReductionStrategy = (strategy: ReductionStrategy) => {
+    // Re-analyze the current term so the highlighted redex follows the new strategy
+    setState(prevState => {
+      const analysis = prevState.currentAST ? analyzeForRedex(prevState.currentAST, strategy, prevState.etaReduction) : { isReducible: false, redexId: undefined, kind: undefined };
+      const recordedStep = prevState.historySteps[prevState.historyIndex];
+      return {
+        ...prevState,
+        reductionStrategy: strategy,
+        fullyReducedString: "",
+        isReducible: analysis.isReducible,
+        highlightedRedexId: recordedStep ? recordedStep.redexId : analysis.redexId,
+        highlightedStepKind: recordedStep ? recordedStep.kind : analysis.kind,
+      };
+    });
+  };
+
+  const setEtaReduction = (enabled: boolean) => {
+    // Eta-redexes become (or stop being) redexes, so the current term is re-analyzed
+    setState(prevState => {
+      const analysis = prevState.currentAST ? analyzeForRedex(prevState.currentAST, prevState.reductionStrategy, enabled) : { isReducible: false, redexId: undefined, kind: undefined };
+      const recordedStep = prevState.historySteps[prevState.historyIndex];
+      return {
+        ...prevState,
+        etaReduction: enabled,
+        fullyReducedString: "",
+        isReducible: analysis.isReducible,
+        highlightedRedexId: recordedStep ? recordedStep.redexId : analysis.redexId,
+        highlightedStepKind: recordedStep ? recordedStep.kind : analysis.kind,
+        redexIds: prevState.currentAST ? findAllRedexes(prevState.currentAST, enabled) : [],
+      };
+    });
+  };
+
+  const setPlaybackSpeed = (speed: PlaybackSpeed) => {
+    setState(prevState => ({ ...prevState, playbackSpeed: speed }));
+  };
+
+  const setAutoPlaying = (playing: boolean) => {
+    setState(prevState => ({ ...prevState, isAutoPlaying: playing }));
+  };
+
+  const setDataEncoding = (encoding: DataEncoding) => {
+    // Numerals and the predefined terms change meaning, so the expression is parsed again
+    setState(prevState => ({ ...prevState, dataEncoding: encoding, fullyReducedString: "" }));
+  };
+
+  const setPrintOptions = (options: Partial<PrintOptions>) => {
+    const printOptions = { ...state.printOptions, ...options };
+    setState(prevState => ({
+      ...prevState,
+      printOptions,
+      reducedExpressionString: prevState.currentAST ? print(prevState.currentAST, 'top', printOptions) : prevState.reducedExpressionString,
+      fullyReducedString: "",
+    }));
+    updatePrettifiedString(state.currentAST, termsInScope);
   };
 
   const resetState = (initialExpression: string = INITIAL_EXPRESSION) => {
     // Directly call parseAndSetAST to re-parse and update all related states
-    parseAndSetAST(initialExpression, state.customExpressions);
+    parseAndSetAST(initialExpression, state.customExpressions, state.dataEncoding);
     // Also clear any fully reduced string that might be lingering
     setState(prevState => ({...prevState, rawExpression: initialExpression, fullyReducedString: "" }));
   };
@@ -291,7 +766,7 @@ export const LambdaProvider: React.FC<{ children: ReactNode }> = ({ children })
       setState(prevState => ({ ...prevState, customExpressions: updatedCustomExpressions }));
       // Re-parse the current raw expression with the new custom terms available
       if (state.rawExpression.trim() !== "") {
-        parseAndSetAST(state.rawExpression, updatedCustomExpressions);
+        parseAndSetAST(state.rawExpression, updatedCustomExpressions, state.dataEncoding);
       }
       toast({ title: "Success", description: `Custom term "${name}" saved!`, variant: "default" });
       return true;
@@ -312,7 +787,7 @@ export const LambdaProvider: React.FC<{ children: ReactNode }> = ({ children })
       }));
       // Re-parse the current raw expression as available terms have changed
        if (state.rawExpression.trim() !== "") {
-        parseAndSetAST(state.rawExpression, updatedCustomExpressions);
+        parseAndSetAST(state.rawExpression, updatedCustomExpressions, state.dataEncoding);
       }
       toast({ title: "Success", description: `Custom term "${name}" removed.`, variant: "default" });
     } catch (error) {
@@ -321,9 +796,26 @@ export const LambdaProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
+  // Merges terms read from a library file. Returns null if the merged library could not be saved.
+  const importCustomExpressions = (terms: NamedExpression[], resolution: ImportConflictResolution): TermLibraryImportReport | null => {
+    const { library: updatedCustomExpressions, report } = mergeTermLibrary(state.customExpressions, terms, resolution);
+    try {
+      localStorage.setItem(CUSTOM_EXPRESSIONS_STORAGE_KEY, JSON.stringify(updatedCustomExpressions));
+      setState(prevState => ({ ...prevState, customExpressions: updatedCustomExpressions }));
+      if (state.rawExpression.trim() !== "") {
+        parseAndSetAST(state.rawExpression, updatedCustomExpressions, state.dataEncoding);
+      }
+      return report;
+    } catch (error) {
+      console.error("Failed to save imported custom expressions to localStorage:", error);
+      toast({ title: "Storage Error", description: "Could not save the imported terms due to local storage issue.", variant: "destructive" });
+      return null;
+    }
+  };
+
 
   return (
-    <LambdaContext.Provider value={{ ...state, setRawExpression, performReductionStep, reduceToNormalForm, resetState, addCustomExpression, removeCustomExpression }}>
+    <LambdaContext.Provider value={{ ...state, setRawExpression, performReductionStep, reduceRedex, etaExpandNode, goToHistoryStep, stepBackward, stepForward, reduceToNormalForm, cancelFullReduction, setReductionBudget, setEvaluationEngine, setCrossCheckEngines, resetState, addCustomExpression, removeCustomExpression, importCustomExpressions, setReductionStrategy, setEtaReduction, setDataEncoding, setPrintOptions, setActiveTab, setPlaybackSpeed, setAutoPlaying, getPermalink }}>
       {children}
     </LambdaContext.Provider>
   );
@@ -0,0 +1,272 @@
+import type { TrompDiagramRenderData } from '@/lib/lambda-calculus/tromp-diagram/renderer';
+import type { SvgElementData } from '@/lib/lambda-calculus/tromp-diagram/tromp-types';
+import type { AstSvgRenderData, SvgAstNode, SvgConnector } from '@/lib/lambda-calculus/ast-svg/ast-svg-types';
+import type { GifEncoderRequest, GifEncoderResponse } from '@/lib/gif-encoder';
+
+// --- Diagram Export ---
+// Standalone images of the diagrams. A visualizer draws a step as SVG markup colored like the
+// page, with the theme's CSS variables (`hsl(var(--foreground))`). Exporting resolves those to
+// concrete colors, so the file looks the same outside the app, and rasterizes the markup for
+// PNG images and for GIF and WebM animations of a recorded reduction.
+
+export interface DiagramImage {
+  markup: string; // A complete <svg> document, still using the theme's CSS variables
+  width: number; // Natural size in pixels
+  height: number;
+}
+
+const MAX_CANVAS_SIDE = 8192; // Browsers refuse to allocate much larger canvases
+const MAX_ANIMATION_SIDE = 800; // Animation frames are scaled down to fit
+export const MAX_ANIMATION_FRAMES = 200;
+const FINAL_FRAME_HOLD = 3; // The normal form stays up for three frame delays
+const GIF_PALETTE_SAMPLES = 8; // Frames whose colors make up the palette of a GIF
+const DOWNLOAD_URL_LIFETIME_MS = 60_000; // Some browsers start a download only after the click returns
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// An <svg> document of the given pixel size showing `viewBox`, on the page background
+function svgDocument(width: number, height: number, viewBox: [number, number, number, number], content: string): DiagramImage {
+  const [x, y, w, h] = viewBox;
+  const markup = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${w} ${h}">`,
+    `<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="hsl(var(--background))"/>`,
+    content,
+    '</svg>',
+  ].join('\n');
+  return { markup, width, height };
+}
+
+// A Tromp diagram with a margin of one grid unit; `strokeOf` colors its elements as on screen
+export function trompDiagramImage(data: TrompDiagramRenderData, strokeOf: (element: SvgElementData) => { stroke: string; strokeWidth: number }): DiagramImage {
+  const pixelsPerUnit = data.widthInGridUnits > 0 ? data.actualWidthPx / data.widthInGridUnits : 1;
+  const elements = data.svgElements.map(element => {
+    const { stroke, strokeWidth } = strokeOf(element);
+    const paint = `stroke="${stroke}" stroke-width="${strokeWidth}" fill="none"`;
+    return element.type === 'line'
+      ? `<line x1="${element.x1}" y1="${element.y1}" x2="${element.x2}" y2="${element.y2}" ${paint}/>`
+      : `<polyline points="${element.points}" ${paint}/>`;
+  });
+  const width = data.widthInGridUnits + 2;
+  const height = data.heightInGridUnits + 2;
+  return svgDocument(
+    Math.ceil(width * pixelsPerUnit),
+    Math.ceil(height * pixelsPerUnit),
+    [-1, -1, width, height],
+    `<g transform="translate(0.5 0.5)">\n${elements.join('\n')}\n</g>`,
+  );
+}
+
+export interface AstTreeStyle {
+  nodeColors: (node: SvgAstNode) => { fill: string; stroke: string; textFill: string };
+  label: (node: SvgAstNode) => string;
+  connectorStroke: (connector: SvgConnector) => string;
+  cornerRadius: number;
+  fontSize: number;
+  fontFamily: string;
+}
+
+const AST_MARGIN = 20;
+
+// An AST drawing at its layout size, with a margin
+export function astTreeImage(data: AstSvgRenderData, style: AstTreeStyle): DiagramImage {
+  const connectors = data.connectors.map(connector => {
+    const width = connector.isHighlighted ? 2 : 1.5;
+    return `<path d="${connector.pathD}" stroke="${style.connectorStroke(connector)}" stroke-width="${width}" fill="none"/>`;
+  });
+  const nodes = data.nodes.map(node => {
+    const { fill, stroke, textFill } = style.nodeColors(node);
+    return [
+      `<g transform="translate(${node.x}, ${node.y})">`,
+      `<rect width="${node.width}" height="${node.height}" rx="${style.cornerRadius}" ry="${style.cornerRadius}" fill="${fill}" stroke="${stroke}" stroke-width="${node.isHighlighted ? 2 : 1.5}"/>`,
+      `<text x="${node.width / 2}" y="${node.height / 2}" text-anchor="middle" dominant-baseline="central" fill="${textFill}" font-size="${style.fontSize}" font-family="${style.fontFamily}">${escapeXml(style.label(node))}</text>`,
+      '</g>',
+    ].join('');
+  });
+  const width = Math.ceil(data.canvasWidth + 2 * AST_MARGIN);
+  const height = Math.ceil(data.canvasHeight + 2 * AST_MARGIN);
+  return svgDocument(width, height, [-AST_MARGIN, -AST_MARGIN, width, height], [...connectors, ...nodes].join('\n'));
+}
+
+// Replaces the theme's CSS variables in `markup` by their current values on the page. Colors are
+// normalized by a canvas context to `#rrggbb` or `rgba(…)`, which every SVG viewer understands.
+export function resolveThemeColors(markup: string): string {
+  const pageStyle = getComputedStyle(document.body);
+  const context = document.createElement('canvas').getContext('2d');
+  const variable = (name: string) => pageStyle.getPropertyValue(`--${name}`).trim().replace(/"/g, "'");
+  const concreteColor = (color: string) => {
+    if (!context) return color;
+    context.fillStyle = '#000000';
+    context.fillStyle = color;
+    return String(context.fillStyle);
+  };
+  return markup
+    .replace(/hsl\(var\(--([\w-]+)\)\s*(?:\/\s*([\d.]+))?\)/g, (_, name: string, alpha?: string) =>
+      concreteColor(alpha ? `hsl(${variable(name)} / ${alpha})` : `hsl(${variable(name)})`))
+    .replace(/var\(--([\w-]+)\)/g, (_, name: string) => variable(name) || 'inherit');
+}
+
+function loadImage(markup: string): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The diagram could not be rendered as an image."));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE) {
+    throw new Error(`The image would be ${width}×${height} pixels; at most ${MAX_CANVAS_SIDE} pixels per side are supported. Choose a smaller resolution.`);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("This browser cannot draw on a canvas.");
+  return { canvas, context };
+}
+
+function canvasBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("The image could not be encoded."))), type);
+  });
+}
+
+export function diagramSvg(image: DiagramImage): Blob {
+  return new Blob([resolveThemeColors(image.markup)], { type: 'image/svg+xml' });
+}
+
+// The diagram at `scale` times its natural size
+export async function diagramPng(image: DiagramImage, scale: number): Promise<Blob> {
+  const { canvas, context } = createCanvas(Math.round(image.width * scale), Math.round(image.height * scale));
+  const loaded = await loadImage(resolveThemeColors(image.markup));
+  context.drawImage(loaded, 0, 0, canvas.width, canvas.height);
+  return canvasBlob(canvas, 'image/png');
+}
+
+// A canvas that fits the largest of the steps, and a function drawing step `i` onto it. Every step
+// is drawn at the same scale, centered, so that the diagram does not change size between frames.
+// Steps are rendered one at a time, when drawn, so that a long reduction is never all in memory.
+function prepareFrames(images: DiagramImage[]) {
+  if (images.length > MAX_ANIMATION_FRAMES) {
+    throw new Error(`The reduction has ${images.length} steps; animations are limited to ${MAX_ANIMATION_FRAMES}.`);
+  }
+  const largestWidth = Math.max(...images.map(image => image.width));
+  const largestHeight = Math.max(...images.map(image => image.height));
+  const scale = Math.min(1, MAX_ANIMATION_SIDE / Math.max(largestWidth, largestHeight));
+  // Even sizes, as video encoders require
+  const { canvas, context } = createCanvas(2 * Math.ceil(largestWidth * scale / 2), 2 * Math.ceil(largestHeight * scale / 2));
+  const background = resolveThemeColors('hsl(var(--background))');
+  const draw = async (i: number) => {
+    const loaded = await loadImage(resolveThemeColors(images[i].markup));
+    const width = images[i].width * scale;
+    const height = images[i].height * scale;
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(loaded, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+  };
+  return { canvas, context, draw };
+}
+
+const frameDelay = (images: DiagramImage[], i: number, frameDelayMs: number) =>
+  i === images.length - 1 ? frameDelayMs * FINAL_FRAME_HOLD : frameDelayMs;
+
+// A GIF worker, answering one request at a time
+function startGifWorker() {
+  const worker = new Worker(new URL('../workers/gif-encoder.worker.ts', import.meta.url));
+  let pending: { resolve: (response: GifEncoderResponse) => void; reject: (error: Error) => void } | null = null;
+  const settle = (outcome: GifEncoderResponse | Error) => {
+    const handler = pending;
+    pending = null;
+    if (outcome instanceof Error) handler?.reject(outcome);
+    else if (outcome.type === 'error') handler?.reject(new Error(outcome.message));
+    else handler?.resolve(outcome);
+  };
+  worker.onmessage = (event: MessageEvent<GifEncoderResponse>) => settle(event.data);
+  worker.onerror = (event: ErrorEvent) => settle(new Error(event.message || "The GIF encoder failed."));
+  const send = (request: GifEncoderRequest, transfer: Transferable[] = []) =>
+    new Promise<GifEncoderResponse>((resolve, reject) => {
+      pending = { resolve, reject };
+      worker.postMessage(request, transfer);
+    });
+  return { send, terminate: () => worker.terminate() };
+}
+
+// Up to GIF_PALETTE_SAMPLES steps, evenly spread from the first to the last
+function paletteSampleIndices(count: number): number[] {
+  if (count <= GIF_PALETTE_SAMPLES) return Array.from({ length: count }, (_, i) => i);
+  return Array.from({ length: GIF_PALETTE_SAMPLES }, (_, i) => Math.round(i * (count - 1) / (GIF_PALETTE_SAMPLES - 1)));
+}
+
+// An animated GIF showing each step for `frameDelayMs`. A worker encodes it while the steps are
+// drawn, one frame at a time.
+export async function diagramGif(images: DiagramImage[], frameDelayMs: number): Promise<Blob> {
+  const { canvas, context, draw } = prepareFrames(images);
+  // The pixels are handed over to the worker, not copied
+  const drawnPixels = async (i: number) => {
+    await draw(i);
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+    return { pixels, transfer: [pixels.buffer as ArrayBuffer] };
+  };
+  const encoder = startGifWorker();
+  try {
+    await encoder.send({ type: 'start', width: canvas.width, height: canvas.height });
+    for (const i of paletteSampleIndices(images.length)) {
+      const { pixels, transfer } = await drawnPixels(i);
+      await encoder.send({ type: 'sample', pixels }, transfer);
+    }
+    for (let i = 0; i < images.length; i++) {
+      const { pixels, transfer } = await drawnPixels(i);
+      await encoder.send({ type: 'frame', pixels, delayMs: frameDelay(images, i, frameDelayMs) }, transfer);
+    }
+    const response = await encoder.send({ type: 'finish' });
+    if (response.type !== 'done') throw new Error("The GIF encoder did not finish.");
+    return new Blob([response.bytes], { type: 'image/gif' });
+  } finally {
+    encoder.terminate();
+  }
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A WebM video showing each step for `frameDelayMs`. The browser records the canvas in real time,
+// so this takes as long as the video.
+export async function diagramWebm(images: DiagramImage[], frameDelayMs: number): Promise<Blob> {
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser cannot record WebM video.");
+  const { canvas, draw } = prepareFrames(images);
+
+  // Frames are captured only when requested, right after each one is drawn
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  await draw(0);
+  recorder.start();
+  for (let i = 0; i < images.length; i++) {
+    if (i > 0) await draw(i);
+    track.requestFrame();
+    await sleep(frameDelay(images, i, frameDelayMs));
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(streamTrack => streamTrack.stop());
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+}
@@ -0,0 +1,241 @@
+// --- GIF Encoding ---
+// A small encoder for animated GIF89a files, enough for exporting reduction sequences. Frames are
+// added one at a time and compressed right away, so only the finished file is kept. All frames
+// share one palette of at most 256 colors: the most frequent colors of a few sample frames, with
+// every channel reduced to 5 bits. Diagrams have few colors, so only anti-aliased edges lose detail.
+
+const PALETTE_SIZE = 256;
+const MAX_CODE = 4096; // Codes are at most 12 bits wide
+
+// Key of a color with 5 bits per channel
+const colorKey = (pixels: Uint8ClampedArray, offset: number) =>
+  ((pixels[offset] >> 3) << 10) | ((pixels[offset + 1] >> 3) << 5) | (pixels[offset + 2] >> 3);
+
+interface Palette {
+  colors: number[][]; // [r, g, b]
+  indexOf: (key: number) => number;
+}
+
+type ColorCounts = Map<number, { count: number; r: number; g: number; b: number }>;
+
+function countColors(counts: ColorCounts, pixels: Uint8ClampedArray) {
+  for (let offset = 0; offset < pixels.length; offset += 4) {
+    const key = colorKey(pixels, offset);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+      entry.r += pixels[offset];
+      entry.g += pixels[offset + 1];
+      entry.b += pixels[offset + 2];
+    } else {
+      counts.set(key, { count: 1, r: pixels[offset], g: pixels[offset + 1], b: pixels[offset + 2] });
+    }
+  }
+}
+
+function buildPalette(counts: ColorCounts): Palette {
+  // Each palette color is the average of the pixels in its bucket
+  const frequent = [...counts.values()].sort((a, b) => b.count - a.count).slice(0, PALETTE_SIZE);
+  const colors = frequent.map(({ count, r, g, b }) => [Math.round(r / count), Math.round(g / count), Math.round(b / count)]);
+  if (colors.length === 0) colors.push([0, 0, 0]);
+
+  // Other colors get the nearest palette color, found once per key
+  const nearest = new Map<number, number>();
+  const indexOf = (key: number) => {
+    let index = nearest.get(key);
+    if (index !== undefined) return index;
+    const r = ((key >> 10) & 31) << 3, g = ((key >> 5) & 31) << 3, b = (key & 31) << 3;
+    let bestDistance = Infinity;
+    index = 0;
+    colors.forEach(([pr, pg, pb], i) => {
+      const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        index = i;
+      }
+    });
+    nearest.set(key, index);
+    return index;
+  };
+  return { colors, indexOf };
+}
+
+// Growable byte buffer
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  string(text: string) {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+// LZW-compresses palette indices into the data sub-blocks of an image
+function writeImageData(out: ByteWriter, indices: Uint8Array) {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>(); // prefix code << 8 | index → code
+
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        block.forEach(value => out.byte(value));
+        block.length = 0;
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // The table is full: start over
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  if (block.length > 0) {
+    out.byte(block.length);
+    block.forEach(value => out.byte(value));
+  }
+  out.byte(0); // Block terminator
+}
+
+// An animated GIF that loops forever. The palette is taken from the frames passed to addSample,
+// or from the first frame if there were none; later colors get the nearest palette color.
+export class GifEncoder {
+  private readonly out = new ByteWriter();
+  private readonly sampledColors: ColorCounts = new Map();
+  private palette: Palette | null = null;
+
+  constructor(private readonly width: number, private readonly height: number) {}
+
+  addSample(pixels: Uint8ClampedArray) {
+    if (this.palette) throw new Error("Samples must come before the first frame.");
+    countColors(this.sampledColors, pixels);
+  }
+
+  addFrame(pixels: Uint8ClampedArray, delayMs: number) {
+    const { out, width, height } = this;
+    if (!this.palette) {
+      if (this.sampledColors.size === 0) countColors(this.sampledColors, pixels);
+      this.palette = buildPalette(this.sampledColors);
+      this.sampledColors.clear();
+      this.writeHeader(this.palette);
+    }
+
+    // Graphic control extension: the frame's delay, in hundredths of a second
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(0);
+    out.word(Math.max(2, Math.round(delayMs / 10)));
+    out.byte(0);
+    out.byte(0);
+
+    // Image descriptor: the whole canvas, no local color table
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0);
+
+    const indices = new Uint8Array(width * height);
+    for (let i = 0; i < indices.length; i++) indices[i] = this.palette.indexOf(colorKey(pixels, i * 4));
+    writeImageData(out, indices);
+  }
+
+  finish(): Uint8Array {
+    if (!this.palette) throw new Error("A GIF needs at least one frame.");
+    this.out.byte(0x3b); // Trailer
+    return this.out.result();
+  }
+
+  private writeHeader(palette: Palette) {
+    const { out } = this;
+    out.string('GIF89a');
+    out.word(this.width);
+    out.word(this.height);
+    out.byte(0xf7); // Global color table of 256 entries, 8 bits per primary
+    out.byte(0); // Background color index
+    out.byte(0); // No pixel aspect ratio
+    for (let i = 0; i < PALETTE_SIZE; i++) {
+      const [r, g, b] = palette.colors[i] ?? [0, 0, 0];
+      out.byte(r);
+      out.byte(g);
+      out.byte(b);
+    }
+
+    // Netscape extension: repeat forever
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.string('NETSCAPE2.0');
+    out.byte(3);
+    out.byte(1);
+    out.word(0);
+    out.byte(0);
+  }
+}
+
+// Messages of the GIF worker. Each request is answered before the next one is sent, so only one
+// frame's pixels are in flight at a time.
+export type GifEncoderRequest =
+  | { type: 'start'; width: number; height: number }
+  | { type: 'sample'; pixels: Uint8ClampedArray }
+  | { type: 'frame'; pixels: Uint8ClampedArray; delayMs: number }
+  | { type: 'finish' };
+
+export type GifEncoderResponse =
+  | { type: 'ready' }
+  | { type: 'done'; bytes: Uint8Array }
+  | { type: 'error'; message: string };
@@ -0,0 +1,203 @@
+import type { ASTNode } from './types';
+import { print } from './printer';
+
+// Machine terms sit next to environments that bind their free variables, so original names are kept
+const printTerm = (term: ASTNode) => print(term, 'top', { keepNames: true });
+
+// --- Abstract Machines ---
+// Two environment machines that evaluate an `ASTNode` without substitution:
+//   Krivine: call-by-name to weak head normal form. State ⟨term, environment, stack⟩.
+//   CEK:     call-by-value. State ⟨control, environment, continuation⟩.
+// Environments bind names to closures (a term paired with the environment it was built in),
+// so the named AST is used as-is; shadowing is handled by searching the newest binding first.
+// CEK values are closures too: of a λ, or of a free variable, which is stuck when applied.
+
+export type MachineKind = 'krivine' | 'cek';
+
+export interface MachineInfo {
+  id: MachineKind;
+  label: string;
+  description: string;
+}
+
+export const abstractMachines: MachineInfo[] = [
+  { id: 'krivine', label: 'Krivine Machine', description: 'Call-by-name. Arguments are pushed as closures and only evaluated when a variable is looked up. Stops at weak head normal form.' },
+  { id: 'cek', label: 'CEK Machine', description: 'Call-by-value. The function, then the argument, is evaluated to a value before the body is entered; the continuation records what remains to be done.' },
+];
+
+export interface Closure {
+  term: ASTNode;
+  env: Environment;
+}
+
+// Persistent linked list, newest binding first, so closures can share their environments
+export type Environment = { name: string; closure: Closure; next: Environment } | null;
+
+export type Continuation =
+  | { kind: 'done' }
+  | { kind: 'arg'; arg: ASTNode; env: Environment; next: Continuation } // Evaluate the argument next
+  | { kind: 'call'; func: Closure; next: Continuation }; // Then call this function value
+
+export type KrivineState = { machine: 'krivine'; term: ASTNode; env: Environment; stack: Closure[] };
+
+export type CEKState =
+  | { machine: 'cek'; mode: 'eval'; term: ASTNode; env: Environment; continuation: Continuation }
+  | { machine: 'cek'; mode: 'return'; value: Closure; continuation: Continuation };
+
+export type MachineState = KrivineState | CEKState;
+
+export interface MachineTransition {
+  rule: string; // Name of the rule that produced this state ('init' for the first)
+  state: MachineState;
+}
+
+export interface MachineTrace {
+  transitions: MachineTransition[];
+  halted: string | null; // Why the machine stopped, or null if the transition limit was hit first
+}
+
+function lookup(env: Environment, name: string): Closure | null {
+  for (let current = env; current; current = current.next) {
+    if (current.name === name) return current.closure;
+  }
+  return null;
+}
+
+function stepKrivine(state: KrivineState): MachineTransition | string {
+  const { term, env, stack } = state;
+  switch (term.type) {
+    case 'application':
+      return { rule: 'push', state: { machine: 'krivine', term: term.func, env, stack: [{ term: term.arg, env }, ...stack] } };
+    case 'lambda': {
+      if (stack.length === 0) return 'Weak head normal form: a λ with an empty stack.';
+      const [argument, ...rest] = stack;
+      return { rule: 'grab', state: { machine: 'krivine', term: term.body, env: { name: term.param, closure: argument, next: env }, stack: rest } };
+    }
+    case 'variable': {
+      const closure = lookup(env, term.name);
+      if (!closure) return `Head normal form: free variable "${term.name}" applied to ${stack.length} argument(s).`;
+      return { rule: 'access', state: { machine: 'krivine', term: closure.term, env: closure.env, stack } };
+    }
+  }
+}
+
+function stepCEK(state: CEKState): MachineTransition | string {
+  if (state.mode === 'eval') {
+    const { term, env, continuation } = state;
+    switch (term.type) {
+      case 'variable': {
+        const value = lookup(env, term.name) ?? { term, env: null };
+        return { rule: 'lookup', state: { machine: 'cek', mode: 'return', value, continuation } };
+      }
+      case 'lambda':
+        return { rule: 'closure', state: { machine: 'cek', mode: 'return', value: { term, env }, continuation } };
+      case 'application':
+        return { rule: 'eval function', state: { machine: 'cek', mode: 'eval', term: term.func, env, continuation: { kind: 'arg', arg: term.arg, env, next: continuation } } };
+    }
+  }
+
+  const { value, continuation } = state;
+  switch (continuation.kind) {
+    case 'done':
+      return 'Value reached with an empty continuation.';
+    case 'arg':
+      return { rule: 'eval argument', state: { machine: 'cek', mode: 'eval', term: continuation.arg, env: continuation.env, continuation: { kind: 'call', func: value, next: continuation.next } } };
+    case 'call': {
+      const { func } = continuation;
+      if (func.term.type !== 'lambda') return `Free variable "${printTerm(func.term)}" applied to a value.`;
+      return { rule: 'apply', state: { machine: 'cek', mode: 'eval', term: func.term.body, env: { name: func.term.param, closure: value, next: func.env }, continuation: continuation.next } };
+    }
+  }
+}
+
+// Runs a machine from the initial state for `ast`, recording every state.
+export function runAbstractMachine(kind: MachineKind, ast: ASTNode, maxTransitions: number): MachineTrace {
+  let current: MachineTransition = kind === 'krivine'
+    ? { rule: 'init', state: { machine: 'krivine', term: ast, env: null, stack: [] } }
+    : { rule: 'init', state: { machine: 'cek', mode: 'eval', term: ast, env: null, continuation: { kind: 'done' } } };
+  const transitions: MachineTransition[] = [current];
+
+  while (transitions.length <= maxTransitions) {
+    const next = current.state.machine === 'krivine' ? stepKrivine(current.state) : stepCEK(current.state);
+    if (typeof next === 'string') return { transitions, halted: next };
+    transitions.push(next);
+    current = next;
+  }
+  return { transitions, halted: null };
+}
+
+// --- Display ---
+
+export interface BindingView {
+  name: string;
+  value: string;
+}
+
+export interface MachineStateView {
+  controlLabel: string; // 'Term', 'Evaluate' or 'Return'
+  control: string;
+  environment: BindingView[]; // Newest binding first
+  stackLabel: string; // 'Stack' or 'Continuation'
+  stack: string[]; // Top first
+}
+
+function describeEnvironment(env: Environment): BindingView[] {
+  const bindings: BindingView[] = [];
+  const seen = new Set<string>();
+  for (let current = env; current; current = current.next) {
+    if (seen.has(current.name)) continue; // Shadowed bindings cannot be reached
+    seen.add(current.name);
+    bindings.push({ name: current.name, value: describeClosure(current.closure) });
+  }
+  return bindings;
+}
+
+function countBindings(env: Environment): number {
+  let count = 0;
+  for (let current = env; current; current = current.next) count++;
+  return count;
+}
+
+function describeClosure(closure: Closure): string {
+  const size = countBindings(closure.env);
+  return size === 0 ? printTerm(closure.term) : `⟨${printTerm(closure.term)}, ρ[${size}]⟩`;
+}
+
+function describeContinuation(continuation: Continuation): string[] {
+  const frames: string[] = [];
+  for (let current = continuation; current.kind !== 'done'; current = current.next) {
+    frames.push(current.kind === 'arg'
+      ? `arg ${describeClosure({ term: current.arg, env: current.env })}`
+      : `call ${describeClosure(current.func)}`);
+  }
+  return frames;
+}
+
+// Renders a state for display. Closures show their term and the size of their environment, ρ[n].
+export function describeMachineState(state: MachineState): MachineStateView {
+  if (state.machine === 'krivine') {
+    return {
+      controlLabel: 'Term',
+      control: printTerm(state.term),
+      environment: describeEnvironment(state.env),
+      stackLabel: 'Stack',
+      stack: state.stack.map(describeClosure),
+    };
+  }
+  if (state.mode === 'eval') {
+    return {
+      controlLabel: 'Evaluate',
+      control: printTerm(state.term),
+      environment: describeEnvironment(state.env),
+      stackLabel: 'Continuation',
+      stack: describeContinuation(state.continuation),
+    };
+  }
+  return {
+    controlLabel: 'Return',
+    control: describeClosure(state.value),
+    environment: describeEnvironment(state.value.env),
+    stackLabel: 'Continuation',
+    stack: describeContinuation(state.continuation),
+  };
+}
@@ -4,3 +4,4 @@
 // Re-exporting all types and functions for easier import
 export * from './ast-svg-types';
 export * from './ast-to-svg';
+export * from './ast-transition';
@@ -18,6 +18,9 @@ export interface SvgAstNodeBase extends SvgDimensions, SvgPosition {
   sourcePrimitiveName?: string;
   isHighlighted?: boolean;
   isGreedilyCollapsible?: boolean; // New: True if this node *could* be greedily collapsed
+  // Text of the node's System F type operations around its own label, e.g. `Λα.` and ` [Nat]`
+  typePrefix?: string;
+  typeSuffix?: string;
 }
 
 export interface SvgVariableNode extends SvgAstNodeBase {
@@ -28,6 +31,7 @@ export interface SvgVariableNode extends SvgAstNodeBase {
 export interface SvgLambdaNode extends SvgAstNodeBase {
   type: 'lambda';
   param: string;
+  paramType?: string; // Printed type annotation, for `λx:A.`
   // We might store child SVG IDs or rely on tree traversal for connectors
 }
 
@@ -4,7 +4,9 @@ import type { AstSvgRenderData, SvgAstNode, SvgConnector, SvgVariableNode, SvgLa
 import { generateSvgNodeId } from './ast-svg-types';
 import { prettifyAST } from '../prettifier';
 import { print } from '../printer';
+import { printBinderType, printTypeOperations } from '../system-f';
 import type { NamedExpression } from '../predefined';
+import type { DataEncoding } from '../encodings';
 
 
 // --- Configuration Constants for Layout ---
@@ -16,6 +18,13 @@ const TEXT_PADDING = 5;
 const CHAR_WIDTH_ESTIMATE = 8; 
 const INITIAL_PADDING = 20;
 
+// The node's type operations as text around its own label: `Λα.` before it, ` [Nat]` after it
+function typeOperationAffixes(astNode: ASTNode): { typePrefix?: string; typeSuffix?: string } {
+  if (!astNode.typeOperations?.length) return {};
+  const [typePrefix, typeSuffix] = printTypeOperations('\u0000', astNode).split('\u0000');
+  return { typePrefix, typeSuffix };
+}
+
 interface LayoutContext {
   svgNodes: SvgAstNode[];
   svgConnectors: SvgConnector[];
@@ -27,13 +36,15 @@ interface LayoutContext {
   customExpressions: NamedExpression[];
   predefinedExpressions: NamedExpression[];
   expandedSubtreeNodeIds: Set<ASTNodeId>;
+  encoding: DataEncoding;
 }
 
 function initializeLayoutContext(
   highlightedRedexId?: string,
   customExpressions: NamedExpression[] = [],
   predefinedExpressions: NamedExpression[] = [],
-  expandedSubtreeNodeIds: Set<ASTNodeId> = new Set()
+  expandedSubtreeNodeIds: Set<ASTNodeId> = new Set(),
+  encoding: DataEncoding = 'church'
 ): LayoutContext {
   return {
     svgNodes: [],
@@ -46,6 +57,7 @@ function initializeLayoutContext(
     customExpressions,
     predefinedExpressions,
     expandedSubtreeNodeIds,
+    encoding,
   };
 }
 
@@ -77,7 +89,7 @@ function layoutNodeRecursive(
   const nodeOwnHeight = NODE_HEIGHT;
   let createdNode: SvgAstNode;
 
-  const prettyName = prettifyAST(astNode, ctx.customExpressions, ctx.predefinedExpressions);
+  const prettyName = prettifyAST(astNode, ctx.customExpressions, ctx.predefinedExpressions, {}, ctx.encoding);
   const canonicalPrintVal = print(astNode);
   // A node is significantly collapsible if its pretty name is a single underscore-prefixed term
   // AND this pretty name is different from its full canonical print.
@@ -112,13 +124,15 @@ function layoutNodeRecursive(
     };
   } else { // Render full node and recurse if applicable
       let actualNodeX = currentX; // Default for variable
+      const affixes = typeOperationAffixes(astNode);
+      const affixLength = (affixes.typePrefix?.length ?? 0) + (affixes.typeSuffix?.length ?? 0);
 
       switch (astNode.type) {
         case 'variable':
           const varNode = astNode as Variable;
-          nodeOwnWidth = Math.max(MIN_NODE_WIDTH, varNode.name.length * CHAR_WIDTH_ESTIMATE + 2 * TEXT_PADDING);
+          nodeOwnWidth = Math.max(MIN_NODE_WIDTH, (varNode.name.length + affixLength) * CHAR_WIDTH_ESTIMATE + 2 * TEXT_PADDING);
           createdNode = {
-            id: astNode.id, svgId, type: 'variable', name: varNode.name,
+            id: astNode.id, svgId, type: 'variable', name: varNode.name, ...affixes,
             x: actualNodeX, y: currentY, width: nodeOwnWidth, height: nodeOwnHeight,
             isHighlighted, sourcePrimitiveName: astNode.sourcePrimitiveName,
             isGreedilyCollapsible: isSignificantSubtreeCollapse, // It could have been collapsible but is expanded
@@ -129,8 +143,9 @@ function layoutNodeRecursive(
           break;
         case 'lambda':
           const lambdaNode = astNode as Lambda;
-          const textContent = `λ${lambdaNode.param}.`;
-          nodeOwnWidth = Math.max(MIN_NODE_WIDTH, textContent.length * CHAR_WIDTH_ESTIMATE + 2 * TEXT_PADDING);
+          const paramType = lambdaNode.paramType && printBinderType(lambdaNode.paramType);
+          const textContent = paramType ? `λ${lambdaNode.param}:${paramType}.` : `λ${lambdaNode.param}.`;
+          nodeOwnWidth = Math.max(MIN_NODE_WIDTH, (textContent.length + affixLength) * CHAR_WIDTH_ESTIMATE + 2 * TEXT_PADDING);
 
           // Layout body starting at currentX, body will be centered under lambda later
           const bodyLayout = layoutNodeRecursive(lambdaNode.body, ctx, currentX, childY);
@@ -139,7 +154,7 @@ function layoutNodeRecursive(
           actualNodeX = currentX + bodyLayout.centerX - (nodeOwnWidth / 2);
 
           createdNode = {
-            id: astNode.id, svgId, type: 'lambda', param: lambdaNode.param,
+            id: astNode.id, svgId, type: 'lambda', param: lambdaNode.param, paramType, ...affixes,
             x: actualNodeX, y: currentY, width: nodeOwnWidth, height: nodeOwnHeight,
             isHighlighted, sourcePrimitiveName: astNode.sourcePrimitiveName,
             isGreedilyCollapsible: isSignificantSubtreeCollapse,
@@ -157,7 +172,7 @@ function layoutNodeRecursive(
           break;
         case 'application':
           const appNode = astNode as Application;
-          nodeOwnWidth = Math.max(MIN_NODE_WIDTH, ('@').length * CHAR_WIDTH_ESTIMATE + 2 * TEXT_PADDING);
+          nodeOwnWidth = Math.max(MIN_NODE_WIDTH, (('@').length + affixLength) * CHAR_WIDTH_ESTIMATE + 2 * TEXT_PADDING);
 
           const funcLayout = layoutNodeRecursive(appNode.func, ctx, currentX, childY);
           const argStartX = currentX + funcLayout.width + HORIZONTAL_SPACING;
@@ -167,7 +182,7 @@ function layoutNodeRecursive(
           actualNodeX = currentX + (childrenTotalWidth / 2) - (nodeOwnWidth / 2); // Center app symbol over combined children
 
           createdNode = {
-            id: astNode.id, svgId, type: 'application',
+            id: astNode.id, svgId, type: 'application', ...affixes,
             x: actualNodeX, y: currentY, width: nodeOwnWidth, height: nodeOwnHeight,
             isHighlighted, 
             sourcePrimitiveName: astNode.sourcePrimitiveName, // Use original AST node's source for coloring the @
@@ -209,13 +224,14 @@ export function generateAstSvgData(
   highlightedRedexId?: string,
   customExpressions: NamedExpression[] = [],
   predefinedExpressions: NamedExpression[] = [],
-  expandedSubtreeNodeIds: Set<ASTNodeId> = new Set()
+  expandedSubtreeNodeIds: Set<ASTNodeId> = new Set(),
+  encoding: DataEncoding = 'church'
 ): AstSvgRenderData {
   if (!astNode) {
     return { nodes: [], connectors: [], canvasWidth: 0, canvasHeight: 0, error: "No AST node provided." };
   }
 
-  const ctx = initializeLayoutContext(highlightedRedexId, customExpressions, predefinedExpressions, expandedSubtreeNodeIds);
+  const ctx = initializeLayoutContext(highlightedRedexId, customExpressions, predefinedExpressions, expandedSubtreeNodeIds, encoding);
 
   try {
     layoutNodeRecursive(astNode, ctx, 0, 0); 
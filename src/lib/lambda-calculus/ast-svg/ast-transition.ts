@@ -0,0 +1,113 @@
+import type { ASTNodeId } from '@/lib/lambda-calculus/types';
+import type { ProvenanceMap } from '@/lib/lambda-calculus/provenance';
+import type { AstSvgRenderData, SvgAstNode, SvgConnector } from './ast-svg-types';
+
+// --- Step Transitions ---
+// Morphs the tree of a term into the tree after one step. Each tree is laid out on its own, so
+// the step's provenance pairs the nodes: a node kept or renamed by the step moves from where it
+// was drawn to where it is drawn now. The redex's application and lambda, the substituted
+// variables and an erased argument fade out; the copies of the argument fade in where they land.
+
+export interface AstTransitionNode {
+  from: SvgAstNode | null; // Null for a node that fades in
+  to: SvgAstNode | null; // Null for a node that fades out
+}
+
+export interface AstTransition {
+  nodes: AstTransitionNode[];
+  fromConnectors: SvgConnector[];
+  toConnectors: SvgConnector[];
+}
+
+export interface AstTransitionFrame {
+  nodes: { node: SvgAstNode; opacity: number }[];
+  connectors: { connector: SvgConnector; opacity: number }[];
+}
+
+// Where the old tree's canvas lies in the new one's: a point p of the old canvas is drawn at
+// p * scale + (x, y). The two trees are usually fitted to the view differently.
+export interface CanvasPlacement {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+// Fade-outs come first, then the movement, then the fade-ins, overlapping a little
+const FADE_OUT_END = 0.4;
+const MOVE_START = 0.2;
+const FADE_IN_START = 0.6;
+
+// The old node, moved to where it was drawn on the new canvas; its size is not scaled
+function placeNode(node: SvgAstNode, placement: CanvasPlacement): SvgAstNode {
+  const centerX = (node.x + node.width / 2) * placement.scale + placement.x;
+  const centerY = (node.y + node.height / 2) * placement.scale + placement.y;
+  return { ...node, x: centerX - node.width / 2, y: centerY - node.height / 2 };
+}
+
+export function planAstTransition(from: AstSvgRenderData, to: AstSvgRenderData, provenance: ProvenanceMap, placement: CanvasPlacement): AstTransition {
+  const fromByNode = new Map<ASTNodeId, SvgAstNode>();
+  from.nodes.forEach(node => fromByNode.set(node.id, placeNode(node, placement)));
+
+  const moved = new Set<ASTNodeId>();
+  const nodes: AstTransitionNode[] = to.nodes.map(node => {
+    const entry = provenance.get(node.id);
+    const original = entry && entry.kind !== 'argument-copy' ? fromByNode.get(entry.origin) : undefined;
+    if (!entry || !original || original.type !== node.type || moved.has(entry.origin)) return { from: null, to: node };
+    moved.add(entry.origin);
+    return { from: original, to: node };
+  });
+  fromByNode.forEach((node, id) => {
+    if (!moved.has(id)) nodes.push({ from: node, to: null });
+  });
+  return { nodes, fromConnectors: from.connectors, toConnectors: to.connectors };
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+// Progress through the part [start, end] of the transition
+const phase = (t: number, start: number, end: number) => Math.min(1, Math.max(0, (t - start) / (end - start)));
+
+// From the bottom center of the parent to the top center of the child, as laid out
+const connectorPath = (parent: SvgAstNode, child: SvgAstNode) =>
+  `M ${parent.x + parent.width / 2} ${parent.y + parent.height} L ${child.x + child.width / 2} ${child.y}`;
+
+// The tree `progress` (0 to 1) of the way through the transition, on the new tree's canvas
+export function astTransitionFrame(transition: AstTransition, progress: number): AstTransitionFrame {
+  const move = easeInOut(phase(progress, MOVE_START, 1));
+  const fadeOut = 1 - phase(progress, 0, FADE_OUT_END);
+  const fadeIn = phase(progress, FADE_IN_START, 1);
+
+  const shownBySvgId = new Map<string, { node: SvgAstNode; opacity: number }>();
+  const movingSvgIds = new Set<string>();
+  const nodes = transition.nodes.map(({ from: start, to: end }) => {
+    const shown = start && end
+      ? {
+          node: { ...end, x: lerp(start.x, end.x, move), y: lerp(start.y, end.y, move), width: lerp(start.width, end.width, move), height: lerp(start.height, end.height, move) },
+          opacity: 1,
+        }
+      : end ? { node: end, opacity: fadeIn } : { node: start!, opacity: fadeOut };
+    // Old edges name a moved node by its old id, new ones by its new id
+    if (start) shownBySvgId.set(start.svgId, shown);
+    if (end) shownBySvgId.set(end.svgId, shown);
+    if (start && end) movingSvgIds.add(start.svgId);
+    return shown;
+  });
+
+  // The new tree's edges follow their nodes; old edges to a node that goes away fade out with it.
+  // An old edge between two moving nodes is left out: the new tree has its own edges for them.
+  const connectors: AstTransitionFrame['connectors'] = [];
+  const addConnector = (connector: SvgConnector) => {
+    const parent = shownBySvgId.get(connector.fromSvgId);
+    const child = shownBySvgId.get(connector.toSvgId);
+    if (!parent || !child) return;
+    const opacity = Math.min(parent.opacity, child.opacity);
+    connectors.push({ connector: { ...connector, pathD: connectorPath(parent.node, child.node) }, opacity });
+  };
+  transition.fromConnectors.forEach(connector => {
+    if (!movingSvgIds.has(connector.fromSvgId) || !movingSvgIds.has(connector.toSvgId)) addConnector(connector);
+  });
+  transition.toConnectors.forEach(addConnector);
+  return { nodes, connectors };
+}
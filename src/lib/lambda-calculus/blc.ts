@@ -0,0 +1,117 @@
+import type { ASTNode } from './types';
+import type { DeBruijnTerm } from './de-bruijn';
+import { toDeBruijn, fromDeBruijn } from './de-bruijn';
+
+// --- Binary Lambda Calculus (John Tromp) ---
+// A closed term is encoded over its De Bruijn form:
+//   λM    -> 00 M
+//   M N   -> 01 M N
+//   index -> 1^n 0   (n >= 1)
+// The code is prefix-free, so a decoder knows where a term ends without a length field.
+
+// Thrown by the decoder. Offsets are positions in the decoded string (whitespace included), end exclusive.
+export class BLCDecodeError extends Error {
+  constructor(message: string, readonly start: number, readonly end: number) {
+    super(message);
+    this.name = 'BLCDecodeError';
+  }
+}
+
+// True when the input consists only of bits (and whitespace), so it should be read as BLC.
+export function isBLCInput(input: string): boolean {
+  return /^[\s01]*[01][\s01]*$/.test(input);
+}
+
+function encodeDeBruijn(term: DeBruijnTerm, freeNames: string[]): string {
+  switch (term.type) {
+    case 'index':
+      return '1'.repeat(term.index) + '0';
+    case 'free':
+      freeNames.push(term.name);
+      return '';
+    case 'lambda':
+      return '00' + encodeDeBruijn(term.body, freeNames);
+    case 'application':
+      return '01' + encodeDeBruijn(term.func, freeNames) + encodeDeBruijn(term.arg, freeNames);
+  }
+}
+
+// Encodes a closed term as a BLC bit string. Throws if the term has free variables.
+export function encodeBLC(node: ASTNode): string {
+  const freeNames: string[] = [];
+  const bits = encodeDeBruijn(toDeBruijn(node), freeNames);
+  if (freeNames.length > 0) {
+    throw new Error(`Only closed terms can be encoded in BLC; free variable(s): ${[...new Set(freeNames)].join(', ')}.`);
+  }
+  return bits;
+}
+
+// Size of the BLC encoding in bits, or null for terms with free variables.
+export function blcSize(node: ASTNode): number | null {
+  const freeNames: string[] = [];
+  const bits = encodeDeBruijn(toDeBruijn(node), freeNames);
+  return freeNames.length > 0 ? null : bits.length;
+}
+
+// Decodes one BLC term. Whitespace between bits is ignored. Trailing zero bits are accepted
+// as byte padding when there are fewer than eight of them; anything else after the term is an error.
+export function decodeBLC(input: string): ASTNode {
+  const bitPositions: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '0' || char === '1') bitPositions.push(i);
+    else if (!/\s/.test(char)) throw new BLCDecodeError(`Unexpected character "${char}" in BLC input; only 0 and 1 are allowed.`, i, i + 1);
+  }
+  if (bitPositions.length === 0) throw new BLCDecodeError('BLC input is empty.', 0, input.length);
+
+  let cursor = 0;
+  const endOfInputError = () => new BLCDecodeError('Unexpected end of BLC input: the term is incomplete.', input.length, input.length);
+  const readBit = (): string => {
+    if (cursor >= bitPositions.length) throw endOfInputError();
+    return input[bitPositions[cursor++]];
+  };
+
+  const decodeTerm = (depth: number): DeBruijnTerm => {
+    const start = cursor < bitPositions.length ? bitPositions[cursor] : input.length;
+    if (readBit() === '0') {
+      return readBit() === '0'
+        ? { type: 'lambda', body: decodeTerm(depth + 1) }
+        : { type: 'application', func: decodeTerm(depth), arg: decodeTerm(depth) };
+    }
+    let index = 1;
+    while (readBit() === '1') index++;
+    if (index > depth) {
+      throw new BLCDecodeError(
+        `Variable index ${index} is not bound: only ${depth} enclosing lambda(s).`,
+        start,
+        bitPositions[cursor - 1] + 1
+      );
+    }
+    return { type: 'index', index };
+  };
+
+  const term = decodeTerm(0);
+  const trailing = bitPositions.slice(cursor);
+  if (trailing.length >= 8 || trailing.some(position => input[position] !== '0')) {
+    throw new BLCDecodeError('Unexpected bits after the end of the BLC term.', trailing[0], input.length);
+  }
+  return fromDeBruijn(term);
+}
+
+// Packs a bit string into bytes, most significant bit first, padding the last byte with zeros.
+export function blcToBytes(bits: string): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+  for (let i = 0; i < bits.length; i++) {
+    if (bits[i] === '1') bytes[i >> 3] |= 0x80 >> (i & 7);
+  }
+  return bytes;
+}
+
+// Unpacks bytes into a bit string (including any padding; `decodeBLC` tolerates it).
+export function bytesToBLC(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(2).padStart(8, '0')).join('');
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(' ');
+}
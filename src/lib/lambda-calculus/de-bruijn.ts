@@ -0,0 +1,149 @@
+import type { ASTNode } from './types';
+import { generateNodeId } from './types';
+
+// --- De Bruijn Indexed Terms ---
+// Bound variables are replaced by the number of binders between the occurrence and its
+// lambda, counting from 1 (as in Tromp's binary lambda calculus): λx.λy.x y is λ λ 2 1.
+// Free variables keep their names, so terms with free variables still round-trip.
+
+export interface DeBruijnIndex {
+  type: 'index';
+  index: number; // 1-based distance to the binding lambda
+}
+
+export interface DeBruijnFree {
+  type: 'free';
+  name: string;
+}
+
+export interface DeBruijnLambda {
+  type: 'lambda';
+  paramHint?: string; // Original parameter name, used to pick readable names when converting back
+  body: DeBruijnTerm;
+}
+
+export interface DeBruijnApplication {
+  type: 'application';
+  func: DeBruijnTerm;
+  arg: DeBruijnTerm;
+}
+
+export type DeBruijnTerm = DeBruijnIndex | DeBruijnFree | DeBruijnLambda | DeBruijnApplication;
+
+// Converts a named AST into its De Bruijn form.
+export function toDeBruijn(node: ASTNode): DeBruijnTerm {
+  const convert = (current: ASTNode, binders: string[]): DeBruijnTerm => {
+    switch (current.type) {
+      case 'variable': {
+        const position = binders.lastIndexOf(current.name);
+        return position === -1
+          ? { type: 'free', name: current.name }
+          : { type: 'index', index: binders.length - position };
+      }
+      case 'lambda':
+        return { type: 'lambda', paramHint: current.param, body: convert(current.body, [...binders, current.param]) };
+      case 'application':
+        return { type: 'application', func: convert(current.func, binders), arg: convert(current.arg, binders) };
+    }
+  };
+  return convert(node, []);
+}
+
+function collectFreeNames(term: DeBruijnTerm, names: Set<string>): Set<string> {
+  if (term.type === 'free') names.add(term.name);
+  else if (term.type === 'lambda') collectFreeNames(term.body, names);
+  else if (term.type === 'application') {
+    collectFreeNames(term.func, names);
+    collectFreeNames(term.arg, names);
+  }
+  return names;
+}
+
+// Name for a lambda without a hint, by nesting depth: a, b, c, ... then v26, v27, ...
+function defaultParamName(depth: number): string {
+  return depth < 26 ? String.fromCharCode('a'.charCodeAt(0) + depth) : `v${depth}`;
+}
+
+// Converts a De Bruijn term back into a named AST with fresh node ids. Parameter names come
+// from the hints where possible and are primed until they clash with neither a free variable
+// nor an enclosing binder, so no occurrence can be captured.
+export function fromDeBruijn(term: DeBruijnTerm): ASTNode {
+  const freeNames = collectFreeNames(term, new Set());
+
+  const convert = (current: DeBruijnTerm, binders: string[]): ASTNode => {
+    switch (current.type) {
+      case 'index': {
+        const name = binders[binders.length - current.index];
+        if (name === undefined) {
+          throw new Error(`De Bruijn index ${current.index} is not bound (only ${binders.length} enclosing lambda(s)).`);
+        }
+        return { type: 'variable', name, id: generateNodeId() };
+      }
+      case 'free':
+        return { type: 'variable', name: current.name, id: generateNodeId() };
+      case 'lambda': {
+        let param = current.paramHint || defaultParamName(binders.length);
+        while (freeNames.has(param) || binders.includes(param)) {
+          param += "'";
+        }
+        return { type: 'lambda', param, body: convert(current.body, [...binders, param]), id: generateNodeId() };
+      }
+      case 'application':
+        return { type: 'application', func: convert(current.func, binders), arg: convert(current.arg, binders), id: generateNodeId() };
+    }
+  };
+  return convert(term, []);
+}
+
+// Prints a De Bruijn term, e.g. `λ λ 2 1`. Parenthesization follows the named printer.
+export function printDeBruijn(term: DeBruijnTerm, context: 'func' | 'arg' | 'body' | 'top' = 'top'): string {
+  let result: string;
+  switch (term.type) {
+    case 'index':
+      return String(term.index);
+    case 'free':
+      return term.name;
+    case 'lambda':
+      result = `λ ${printDeBruijn(term.body, 'body')}`;
+      return context === 'func' || context === 'arg' ? `(${result})` : result;
+    case 'application':
+      result = `${printDeBruijn(term.func, 'func')} ${printDeBruijn(term.arg, 'arg')}`;
+      return context === 'func' || context === 'arg' ? `(${result})` : result;
+  }
+}
+
+// A compact string that is equal for two terms exactly when they are alpha-equivalent.
+// Suitable as a Map key for recognizing and deduplicating terms.
+export function deBruijnKey(node: ASTNode): string {
+  const serialize = (term: DeBruijnTerm): string => {
+    switch (term.type) {
+      case 'index': return String(term.index);
+      case 'free': return `"${term.name}"`;
+      case 'lambda': return `λ${serialize(term.body)}`;
+      case 'application': return `(${serialize(term.func)} ${serialize(term.arg)})`;
+    }
+  };
+  return serialize(toDeBruijn(node));
+}
+
+// Two terms are alpha-equivalent when they differ only in the names of bound variables.
+export function alphaEquivalent(a: ASTNode, b: ASTNode): boolean {
+  const compare = (left: ASTNode, right: ASTNode, leftBinders: string[], rightBinders: string[]): boolean => {
+    if (left.type === 'variable' && right.type === 'variable') {
+      const leftPosition = leftBinders.lastIndexOf(left.name);
+      const rightPosition = rightBinders.lastIndexOf(right.name);
+      if (leftPosition === -1 || rightPosition === -1) {
+        return leftPosition === rightPosition && left.name === right.name;
+      }
+      return leftBinders.length - leftPosition === rightBinders.length - rightPosition;
+    }
+    if (left.type === 'lambda' && right.type === 'lambda') {
+      return compare(left.body, right.body, [...leftBinders, left.param], [...rightBinders, right.param]);
+    }
+    if (left.type === 'application' && right.type === 'application') {
+      return compare(left.func, right.func, leftBinders, rightBinders) && compare(left.arg, right.arg, leftBinders, rightBinders);
+    }
+    return false;
+  };
+  return compare(a, b, [], []);
+}
@@ -0,0 +1,131 @@
+import type { NamedExpression } from './predefined';
+import { predefinedExpressions } from './predefined';
+
+// --- Data Encodings ---
+// How numerals and lists are represented as terms. The predefined terms are Church-encoded; the
+// other encodings replace the terms that depend on the representation. Booleans carry no data,
+// so they are the same in every encoding. Terms built only from others (LEQ, EQ, FACT, FIB)
+// follow the encoding through the versions of the terms they refer to.
+
+export type DataEncoding = 'church' | 'scott' | 'parigot';
+
+export interface DataEncodingInfo {
+  id: DataEncoding;
+  label: string;
+  description: string;
+}
+
+export const dataEncodings: DataEncodingInfo[] = [
+  { id: 'church', label: 'Church', description: 'Data as its own fold: n = λf.λx.f (… (f x)). Iteration is free, the predecessor is expensive.' },
+  { id: 'scott', label: 'Scott', description: 'Data as its own case analysis: n+1 = λs.λz.s n. The predecessor is one step, iteration needs recursion.' },
+  { id: 'parigot', label: 'Parigot', description: 'Both at once: n+1 = λs.λz.s n (n s z), with n s z reduced. Constant-time predecessor and free iteration, but numerals grow exponentially.' },
+];
+
+// Parigot numerals contain their predecessor twice, so their size doubles with each successor
+export const MAX_PARIGOT_NUMERAL = 10;
+
+// Source text of the numeral `n`, parenthesized
+export function numeralSource(n: number, encoding: DataEncoding): string {
+  if (n < 0) throw new Error("Numerals are not defined for negative numbers.");
+  switch (encoding) {
+    case 'church': {
+      let applications = 'x';
+      for (let i = 0; i < n; i++) {
+        applications = `f (${applications})`;
+      }
+      return `(λf.λx.${applications})`;
+    }
+    case 'scott': {
+      let numeral = '(λs.λz.z)';
+      for (let i = 0; i < n; i++) {
+        numeral = `(λs.λz.s ${numeral})`;
+      }
+      return numeral;
+    }
+    case 'parigot': {
+      if (n > MAX_PARIGOT_NUMERAL) {
+        throw new Error(`Parigot numerals double in size with each successor; _${n} is too large (at most _${MAX_PARIGOT_NUMERAL}).`);
+      }
+      // In normal form: `n s z` is written as n's body, whose binders are also s and z
+      let numeral = '(λs.λz.z)';
+      let body = 'z';
+      for (let i = 0; i < n; i++) {
+        body = `s ${numeral} (${body})`;
+        numeral = `(λs.λz.${body})`;
+      }
+      return numeral;
+    }
+  }
+}
+
+const numeralExpressions = (encoding: DataEncoding, label: string): NamedExpression[] =>
+  [0, 1, 2, 3].map(n => ({ name: String(n), lambda: numeralSource(n, encoding).slice(1, -1), description: `${label} numeral ${n}` }));
+
+// The terms that differ from their Church versions, by encoding
+const ENCODED_EXPRESSIONS: Record<DataEncoding, NamedExpression[]> = {
+  church: [],
+  scott: [
+    ...numeralExpressions('scott', 'Scott'),
+    { name: "SUCC", lambda: "λn.λs.λz.s n", description: "Scott successor: λn.λs.λz.s n" },
+    { name: "PRED", lambda: "λn.n (λp.p) (λs.λz.z)", description: "Scott predecessor, with PRED 0 = 0: λn.n (λp.p) 0" },
+    { name: "ISZERO", lambda: "λn.n (λp._FALSE) _TRUE", description: "TRUE for Scott 0: λn.n (λp.FALSE) TRUE" },
+    { name: "PLUS", lambda: "_Y-COMB (λf.λm.λn.m (λp._SUCC (f p n)) n)", description: "Scott addition, by recursion on m through Y" },
+    { name: "MULT", lambda: "_Y-COMB (λf.λm.λn.m (λp._PLUS n (f p n)) _0)", description: "Scott multiplication, by recursion on m through Y" },
+    { name: "POW", lambda: "_Y-COMB (λf.λb.λe.e (λp._MULT b (f b p)) _1)", description: "Scott exponentiation b^e, by recursion on e through Y" },
+    { name: "SUB", lambda: "_Y-COMB (λf.λm.λn.n (λp.f (_PRED m) p) m)", description: "Scott truncated subtraction m - n, by recursion on n through Y" },
+    { name: "NIL", lambda: "λc.λn.n", description: "Scott empty list: λc.λn.n" },
+    { name: "CONS", lambda: "λh.λt.λc.λn.c h t", description: "Scott list cell: λh.λt.λc.λn.c h t" },
+    { name: "ISNIL", lambda: "λl.l (λh.λt._FALSE) _TRUE", description: "TRUE for the empty Scott list" },
+    { name: "HEAD", lambda: "λl.l (λh.λt.h) _NIL", description: "First element of a Scott list (NIL if empty)" },
+    { name: "TAIL", lambda: "λl.l (λh.λt.t) _NIL", description: "A Scott list without its first element (NIL if empty)" },
+  ],
+  parigot: [
+    ...numeralExpressions('parigot', 'Parigot'),
+    { name: "SUCC", lambda: "λn.λs.λz.s n (n s z)", description: "Parigot successor: λn.λs.λz.s n (n s z)" },
+    { name: "PRED", lambda: "λn.n (λp.λr.p) (λs.λz.z)", description: "Parigot predecessor, with PRED 0 = 0: λn.n (λp.λr.p) 0" },
+    { name: "ISZERO", lambda: "λn.n (λp.λr._FALSE) _TRUE", description: "TRUE for Parigot 0: λn.n (λp.λr.FALSE) TRUE" },
+    { name: "PLUS", lambda: "λm.λn.m (λp.λr._SUCC r) n", description: "Parigot addition, iterating SUCC m times: λm.λn.m (λp.λr.SUCC r) n" },
+    { name: "MULT", lambda: "λm.λn.m (λp.λr._PLUS n r) _0", description: "Parigot multiplication, adding n m times: λm.λn.m (λp.λr.PLUS n r) 0" },
+    { name: "SUB", lambda: "λm.λn.n (λp.λr._PRED r) m", description: "Parigot truncated subtraction, applying PRED n times: λm.λn.n (λp.λr.PRED r) m" },
+    { name: "NIL", lambda: "λc.λn.n", description: "Parigot empty list: λc.λn.n" },
+    { name: "CONS", lambda: "λh.λt.λc.λn.c h t (t c n)", description: "Parigot list cell: λh.λt.λc.λn.c h t (t c n)" },
+    { name: "ISNIL", lambda: "λl.l (λh.λt.λr._FALSE) _TRUE", description: "TRUE for the empty Parigot list" },
+    { name: "HEAD", lambda: "λl.l (λh.λt.λr.h) _NIL", description: "First element of a Parigot list (NIL if empty)" },
+    { name: "TAIL", lambda: "λl.l (λh.λt.λr.t) _NIL", description: "A Parigot list without its first element (NIL if empty)" },
+  ],
+};
+
+// Terms an encoding leaves out. Parigot numerals contain their predecessor, so the numerals that
+// POW and the recursive examples build grow exponentially, and they do not finish in time.
+const OMITTED_EXPRESSIONS: Record<DataEncoding, string[]> = {
+  church: [],
+  scott: [],
+  parigot: ["POW", "FACT", "FIB"],
+};
+
+// Why `_NAME` cannot be used in the encoding, or null if it is not a term the encoding leaves out
+export function omittedTermMessage(name: string, encoding: DataEncoding): string | null {
+  if (!OMITTED_EXPRESSIONS[encoding].includes(name)) return null;
+  const label = dataEncodings.find(info => info.id === encoding)?.label ?? encoding;
+  return `_${name} is not available with ${label} numerals: they contain their predecessor, so the numerals it builds grow exponentially. Switch to the Church or Scott encoding.`;
+}
+
+const predefinedByEncoding = new Map<DataEncoding, NamedExpression[]>();
+
+// The predefined terms with the encoding's versions in place of the Church ones, without the ones
+// it leaves out. The same array
+// is returned on every call for an encoding, so it can be used as a React dependency.
+export function predefinedExpressionsFor(encoding: DataEncoding): NamedExpression[] {
+  let expressions = predefinedByEncoding.get(encoding);
+  if (!expressions) {
+    const replacements = new Map(ENCODED_EXPRESSIONS[encoding].map(expr => [expr.name, expr]));
+    expressions = predefinedExpressions
+      .filter(expr => !OMITTED_EXPRESSIONS[encoding].includes(expr.name))
+      .map(expr => {
+        const replacement = replacements.get(expr.name);
+        return replacement ? { ...replacement, category: expr.category } : expr;
+      });
+    predefinedByEncoding.set(encoding, expressions);
+  }
+  return expressions;
+}
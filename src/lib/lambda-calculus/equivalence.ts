@@ -0,0 +1,35 @@
+import type { ASTNode } from './types';
+import { alphaEquivalent } from './de-bruijn';
+import type { FullReductionResult } from './full-reduction';
+
+// --- Equivalence ---
+// Two terms are β-equivalent exactly when they reduce to a common term. By the Church–Rosser
+// theorem a term has at most one normal form, so when both terms have one, comparing the normal
+// forms up to α-equivalence decides the question. Without both normal forms (the budget ran out,
+// or a term has none) it stays open: β-equivalence is undecidable in general.
+
+export type EquivalenceVerdict = 'alpha-equivalent' | 'beta-equivalent' | 'different-normal-forms' | 'unknown';
+
+export interface EquivalenceVerdictInfo {
+  id: EquivalenceVerdict;
+  label: string;
+  description: string;
+}
+
+export const equivalenceVerdicts: EquivalenceVerdictInfo[] = [
+  { id: 'alpha-equivalent', label: 'α-equivalent', description: 'The terms are equal up to renaming of bound variables, without any reduction.' },
+  { id: 'beta-equivalent', label: 'β-equivalent', description: 'Both terms reduce to the same normal form (up to α-equivalence).' },
+  { id: 'different-normal-forms', label: 'Different normal forms', description: 'The normal forms differ, so the terms are not β-equivalent.' },
+  { id: 'unknown', label: 'Unknown', description: 'At least one term did not reach a normal form within the budget, so equivalence could not be decided.' },
+];
+
+export function decideEquivalence(
+  left: ASTNode,
+  right: ASTNode,
+  leftResult: FullReductionResult | null,
+  rightResult: FullReductionResult | null
+): EquivalenceVerdict {
+  if (alphaEquivalent(left, right)) return 'alpha-equivalent';
+  if (leftResult?.outcome !== 'normal-form' || rightResult?.outcome !== 'normal-form') return 'unknown';
+  return alphaEquivalent(leftResult.ast, rightResult.ast) ? 'beta-equivalent' : 'different-normal-forms';
+}
@@ -0,0 +1,182 @@
+import type { ASTNode } from './types';
+import type { ReductionStrategy } from './reducer';
+import { reduceStep } from './reducer';
+import { alphaEquivalent } from './de-bruijn';
+import { normalizeWithSharing } from './sharing-evaluator';
+
+// --- Full Reduction ---
+// Reduces a term until it has no redex left for the strategy or a budget runs out. Runs in a
+// Web Worker (see src/workers/full-reduction.worker.ts); the messages exchanged are defined here.
+
+export interface ReductionBudget {
+  maxSteps: number;
+  maxMillis: number; // Wall-clock time limit
+  maxSize: number; // Largest term allowed, in AST nodes
+}
+
+export const DEFAULT_REDUCTION_BUDGET: ReductionBudget = {
+  maxSteps: 5000,
+  maxMillis: 10000,
+  maxSize: 200000,
+};
+
+export type EvaluationEngine = 'substitution' | 'sharing';
+
+export interface EvaluationEngineInfo {
+  id: EvaluationEngine;
+  label: string;
+  description: string;
+}
+
+export const evaluationEngines: EvaluationEngineInfo[] = [
+  {
+    id: 'substitution',
+    label: 'Substitution',
+    description: 'Repeats single steps of the selected strategy, copying arguments on substitution.',
+  },
+  {
+    id: 'sharing',
+    label: 'Sharing',
+    description: 'Call-by-need normalization by evaluation: arguments are shared and evaluated at most once. Always computes the full β-normal form, as normal order does.',
+  },
+];
+
+// Why the reduction stopped
+export type FullReductionOutcome = 'normal-form' | 'loop' | 'max-steps' | 'timeout' | 'max-size';
+
+export interface FullReductionProgress {
+  steps: number;
+  size: number;
+  elapsedMillis: number;
+}
+
+// Result of running the other engine on the same term: 'inconclusive' when either engine
+// stopped without reaching a normal form
+export type CrossCheckOutcome = 'equal' | 'different' | 'inconclusive';
+
+export interface FullReductionResult extends FullReductionProgress {
+  ast: ASTNode;
+  outcome: FullReductionOutcome;
+  crossCheck?: CrossCheckOutcome;
+}
+
+export type FullReductionRequest = {
+  type: 'start';
+  ast: ASTNode;
+  strategy: ReductionStrategy;
+  etaReduction: boolean;
+  engine: EvaluationEngine;
+  crossCheck: boolean;
+  budget: ReductionBudget;
+};
+
+export type FullReductionResponse =
+  | { type: 'progress'; progress: FullReductionProgress }
+  | { type: 'done'; result: FullReductionResult }
+  | { type: 'error'; message: string };
+
+const PROGRESS_INTERVAL_MS = 100;
+
+export function countNodes(node: ASTNode): number {
+  switch (node.type) {
+    case 'variable': return 1;
+    case 'lambda': return 1 + countNodes(node.body);
+    case 'application': return 1 + countNodes(node.func) + countNodes(node.arg);
+  }
+}
+
+export function runFullReduction(
+  ast: ASTNode,
+  strategy: ReductionStrategy,
+  etaReduction: boolean,
+  budget: ReductionBudget,
+  onProgress: (progress: FullReductionProgress) => void
+): FullReductionResult {
+  const startTime = Date.now();
+  let lastProgressTime = startTime;
+  let current = ast;
+  let size = countNodes(current);
+  let steps = 0;
+
+  const finish = (outcome: FullReductionOutcome): FullReductionResult =>
+    ({ ast: current, outcome, steps, size, elapsedMillis: Date.now() - startTime });
+
+  while (true) {
+    if (size > budget.maxSize) return finish('max-size');
+    const now = Date.now();
+    if (now - startTime > budget.maxMillis) return finish('timeout');
+    if (now - lastProgressTime >= PROGRESS_INTERVAL_MS) {
+      lastProgressTime = now;
+      onProgress({ steps, size, elapsedMillis: now - startTime });
+    }
+
+    const { newAst, changed } = reduceStep(current, strategy, etaReduction);
+    if (!changed) return finish('normal-form');
+    // The budget is checked only now, so that a normal form reached by the last allowed step counts
+    if (steps >= budget.maxSteps) return finish('max-steps');
+    // A step that reproduces the same term up to renaming (e.g. Ω) never terminates
+    if (alphaEquivalent(newAst, current)) return finish('loop');
+    current = newAst;
+    size = countNodes(current);
+    steps++;
+  }
+}
+
+// The sharing evaluator only performs β-steps. Eta-reducing its β-normal form cannot create a
+// β-redex, so doing so afterwards gives the βη-normal form.
+function normalizeWithSharingAndEta(
+  ast: ASTNode,
+  etaReduction: boolean,
+  budget: ReductionBudget,
+  onProgress: (progress: FullReductionProgress) => void
+): FullReductionResult {
+  const result = normalizeWithSharing(ast, budget, onProgress);
+  if (!etaReduction || result.outcome !== 'normal-form') return result;
+  let current = result.ast;
+  let steps = result.steps;
+  while (true) {
+    const { newAst, changed } = reduceStep(current, 'normal', true);
+    if (!changed) break;
+    current = newAst;
+    steps++;
+  }
+  return { ...result, ast: current, steps, size: countNodes(current) };
+}
+
+// Strategies that stop before the β-normal form: at a weak head, weak or head normal form
+const PARTIAL_STRATEGIES: ReductionStrategy[] = ['call-by-name', 'call-by-value', 'head'];
+
+// Whether the engines can be compared: the sharing evaluator always computes the β-normal form,
+// so the substitution engine's result must be one too
+export function canCrossCheck(engine: EvaluationEngine, strategy: ReductionStrategy): boolean {
+  return engine === 'sharing' || !PARTIAL_STRATEGIES.includes(strategy);
+}
+
+// Runs a request with the chosen engine and optionally checks the result against the other one.
+// The substitution side of the check uses normal order, the strategy whose results the sharing
+// evaluator reproduces. A result of a strategy that stops early cannot be checked.
+export function runFullReductionRequest(
+  request: FullReductionRequest,
+  onProgress: (progress: FullReductionProgress) => void
+): FullReductionResult {
+  const { ast, strategy, etaReduction, engine, budget } = request;
+  const result = engine === 'sharing'
+    ? normalizeWithSharingAndEta(ast, etaReduction, budget, onProgress)
+    : runFullReduction(ast, strategy, etaReduction, budget, onProgress);
+  if (!request.crossCheck) return result;
+  if (!canCrossCheck(engine, strategy)) return { ...result, crossCheck: 'inconclusive' };
+
+  const noProgress = () => {};
+  let other: FullReductionResult;
+  try {
+    other = engine === 'sharing'
+      ? runFullReduction(ast, 'normal', etaReduction, budget, noProgress)
+      : normalizeWithSharingAndEta(ast, etaReduction, budget, noProgress);
+  } catch (e) {
+    return { ...result, crossCheck: 'inconclusive' };
+  }
+  if (result.outcome !== 'normal-form' || other.outcome !== 'normal-form') {
+    return { ...result, crossCheck: 'inconclusive' };
+  }
+  return { ...result, crossCheck: alphaEquivalent(result.ast, other.ast) ? 'equal' : 'different' };
+}
@@ -0,0 +1,229 @@
+import type { ASTNode, ASTNodeId, Lambda, TypeExpression } from './types';
+import type { ReductionKind } from './reducer';
+import type { TrompDiagramRenderData } from './tromp-diagram/renderer';
+import { termShape } from './system-f';
+
+// --- LaTeX Export ---
+// Terms, reduction traces and Tromp diagrams for lecture notes. Terms print in math mode with
+// their own variable names, e.g. `(\lambda x.\, x\, x)\, y`. Named sub-terms recognized by the
+// prettifier can print as macros such as `\lcPLUS`, defined by latexMacroDefinitions so that a
+// document can restyle them. Traces need amsmath's `align*`, diagrams the TikZ package.
+
+export interface LatexOptions {
+  // Re-sugar directly nested lambdas: `\lambda x\, y.\, M`
+  compactLambdas?: boolean;
+  // Names the sub-terms to print as macros (`_PLUS` as `\lcPLUS`, `_2` as `\overline{2}`), see namedTermRecognizer
+  recognizeName?: (node: ASTNode) => string | null;
+  // Collects the names printed as macros, for latexMacroDefinitions
+  usedNames?: Set<string>;
+  // A sub-term to underline, e.g. the redex contracted next
+  underlinedId?: ASTNodeId;
+}
+
+// Greek letters of variable and type names, with the look-alike capitals as Latin letters
+const GREEK_LETTERS = 'αβγδεζηθικμνξοπρστυφχψωΑΒΓΔΕΖΗΘΙΚΜΝΞΟΠΡΣΤΥΦΧΨΩ';
+const GREEK_MACROS = [
+  '\\alpha', '\\beta', '\\gamma', '\\delta', '\\epsilon', '\\zeta', '\\eta', '\\theta', '\\iota', '\\kappa', '\\mu', '\\nu',
+  '\\xi', 'o', '\\pi', '\\rho', '\\sigma', '\\tau', '\\upsilon', '\\phi', '\\chi', '\\psi', '\\omega',
+  'A', 'B', '\\Gamma', '\\Delta', 'E', 'Z', 'H', '\\Theta', 'I', 'K', 'M', 'N',
+  '\\Xi', 'O', '\\Pi', 'P', '\\Sigma', 'T', '\\Upsilon', '\\Phi', 'X', '\\Psi', '\\Omega',
+];
+
+const MACRO_PREFIX = 'lc';
+const DIGIT_WORDS = ['Zero', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine'];
+
+// A variable or type name: `x`, `x_{1}'` for `x1'` or `x_1'`, `\alpha`, or `\mathit{acc}` for longer names
+function latexName(name: string): string {
+  const [, base, digits, primes] = name.match(/^(.*?)(?:_?(\d+))?('*)$/)!;
+  const letters = [...base].map(letter => {
+    const greek = GREEK_LETTERS.indexOf(letter);
+    return greek === -1 ? letter.replace(/_/g, '\\_') : GREEK_MACROS[greek];
+  });
+  // Braces end a Greek macro within a longer name: `\mathit{{\alpha}b}`
+  const text = letters.length === 1 ? letters[0] : `\\mathit{${letters.map(letter => (/^\\[a-zA-Z]+$/.test(letter) ? `{${letter}}` : letter)).join('')}}`;
+  return `${text}${digits ? `_{${digits}}` : ''}${primes}`;
+}
+
+// The macro of a named term: its letters, with digits spelled out, after a prefix that keeps it
+// clear of LaTeX's own commands (`_S` is `\lcS`, not `\S`; `_PAIR2` is `\lcPAIRTwo`)
+function latexMacroName(name: string): string {
+  const letters = name.replace(/^_/, '').replace(/\d/g, digit => DIGIT_WORDS[Number(digit)]).replace(/[^A-Za-z]/g, '');
+  return letters ? `${MACRO_PREFIX}${letters}` : '';
+}
+
+function latexType(type: TypeExpression, context: 'top' | 'from' = 'top'): string {
+  switch (type.kind) {
+    case 'var':
+      return latexName(type.name);
+    case 'arrow': {
+      const text = `${latexType(type.from, 'from')} \\to ${latexType(type.to)}`;
+      return context === 'from' ? `(${text})` : text;
+    }
+    case 'forall': {
+      const text = `\\forall ${latexName(type.param)}.\\, ${latexType(type.body)}`;
+      return context === 'from' ? `(${text})` : text;
+    }
+  }
+}
+
+function latexBinder(lambda: Lambda): string {
+  if (!lambda.paramType) return latexName(lambda.param);
+  const type = lambda.paramType.kind === 'var' ? latexType(lambda.paramType) : `(${latexType(lambda.paramType)})`;
+  return `${latexName(lambda.param)} \\colon ${type}`;
+}
+
+// Wraps the printed node `text` in its type operations, as printTypeOperations does
+function latexTypeOperations(text: string, node: ASTNode): string {
+  let shape: ASTNode['type'] = node.type;
+  let result = text;
+  for (const operation of node.typeOperations ?? []) {
+    if (operation.kind === 'abstraction') {
+      result = `\\Lambda ${latexName(operation.param)}.\\, ${result}`;
+      shape = 'lambda';
+    } else {
+      result = `${shape === 'lambda' ? `(${result})` : result}\\, [${latexType(operation.type)}]`;
+      shape = 'application';
+    }
+  }
+  return result;
+}
+
+// Unlike the canonical printer, application associates to the left: `f\, x\, y`
+function needsParentheses(node: ASTNode, context: 'func' | 'arg' | 'body' | 'top'): boolean {
+  const shape = termShape(node);
+  if (shape === 'lambda' && (context === 'func' || context === 'arg')) return true;
+  if (shape === 'application' && context === 'arg') return true;
+  return false;
+}
+
+interface LatexState {
+  options: LatexOptions;
+  // The underlined node and the nodes above it. These print structurally even when they are named
+  // terms, so that the underline stays visible.
+  underlinedPath: Set<ASTNodeId>;
+}
+
+// Ids from `node` down to the node `id`, or null if it is not in the term
+function pathTo(node: ASTNode, id: ASTNodeId): ASTNodeId[] | null {
+  if (node.id === id) return [id];
+  const children = node.type === 'lambda' ? [node.body] : node.type === 'application' ? [node.func, node.arg] : [];
+  for (const child of children) {
+    const path = pathTo(child, id);
+    if (path) return [node.id, ...path];
+  }
+  return null;
+}
+
+function recognizedName(node: ASTNode, state: LatexState): string | null {
+  if (state.underlinedPath.has(node.id)) return null;
+  return state.options.recognizeName?.(node) ?? null;
+}
+
+function latexRecursive(node: ASTNode, context: 'func' | 'arg' | 'body' | 'top', state: LatexState): string {
+  const { options } = state;
+  const name = recognizedName(node, state);
+  const macro = name === null ? '' : latexMacroName(name);
+  let result: string;
+  if (name !== null && /^_\d+$/.test(name)) {
+    result = `\\overline{${name.slice(1)}}`;
+  } else if (macro) {
+    options.usedNames?.add(name!);
+    result = `\\${macro}`;
+  } else {
+    result = latexTypeOperations(latexUntyped(node, state), node);
+  }
+  if (node.id === options.underlinedId) result = `\\underline{${result}}`;
+  // Numerals and macros are atoms
+  return name === null && needsParentheses(node, context) ? `(${result})` : result;
+}
+
+// Prints a node that is not a named term itself, leaving out its type operations
+function latexUntyped(node: ASTNode, state: LatexState): string {
+  const { options } = state;
+  switch (node.type) {
+    case 'variable':
+      return latexName(node.name);
+    case 'lambda': {
+      // A nested lambda stays separate when it is typed, named or underlined
+      const binders = [latexBinder(node)];
+      let innermostBody = node.body;
+      while (
+        options.compactLambdas && innermostBody.type === 'lambda' && !innermostBody.typeOperations?.length &&
+        innermostBody.id !== options.underlinedId && recognizedName(innermostBody, state) === null
+      ) {
+        binders.push(latexBinder(innermostBody));
+        innermostBody = innermostBody.body;
+      }
+      return `\\lambda ${binders.join('\\, ')}.\\, ${latexRecursive(innermostBody, 'body', state)}`;
+    }
+    case 'application':
+      return `${latexRecursive(node.func, 'func', state)}\\, ${latexRecursive(node.arg, 'arg', state)}`;
+  }
+}
+
+// The term in math mode, without delimiters
+export function printLatex(node: ASTNode, options: LatexOptions = {}): string {
+  const underlinedPath = new Set(options.underlinedId ? pathTo(node, options.underlinedId) ?? [] : []);
+  return latexRecursive(node, 'top', { options, underlinedPath });
+}
+
+// `\newcommand` lines for the named terms printed as macros, to go into the preamble
+export function latexMacroDefinitions(names: Iterable<string>): string {
+  const definitions = new Map<string, string>();
+  for (const name of names) {
+    const macro = latexMacroName(name);
+    if (!macro || definitions.has(macro)) continue;
+    const text = name.replace(/^_/, '').replace(/([_&%$#{}])/g, '\\$1');
+    definitions.set(macro, `\\newcommand{\\${macro}}{\\textsf{${text}}}`);
+  }
+  return [...definitions.keys()].sort().map(macro => definitions.get(macro)).join('\n');
+}
+
+// A step of a trace: the redex contracted from a term, or the node eta-expanded in it
+export interface LatexTraceStep {
+  redexId: ASTNodeId;
+  kind: ReductionKind | 'eta-expansion';
+}
+
+// An expansion is the converse of an eta reduction
+const STEP_ARROWS: Record<LatexTraceStep['kind'], string> = {
+  beta: '\\to_{\\beta}',
+  eta: '\\to_{\\eta}',
+  'eta-expansion': '\\leftarrow_{\\eta}',
+};
+
+// `terms[i + 1]` follows from `terms[i]` by `steps[i]`. Every term is aligned after the arrow of
+// the step that led to it, with the redex contracted from it underlined.
+export function latexReductionTrace(terms: ASTNode[], steps: LatexTraceStep[], options: LatexOptions = {}): string {
+  const lines = terms.map((term, i) => {
+    const text = printLatex(term, { ...options, underlinedId: steps[i]?.redexId });
+    return i === 0 ? `  & ${text}` : `  {} ${STEP_ARROWS[steps[i - 1].kind]} {} & ${text}`;
+  });
+  return ['\\begin{align*}', lines.join(' \\\\\n'), '\\end{align*}'].join('\n');
+}
+
+export interface TikzOptions {
+  unitCm?: number; // Length of a grid unit
+  redexColor?: string; // TikZ color of the highlighted redex
+}
+
+const tikzNumber = (value: number) => String(Number(value.toFixed(3)));
+
+// A tikzpicture with the diagram's lines in grid units; y grows downwards as in the SVG. The
+// highlighted redex and its argument are drawn with the `redex` and `argument` styles.
+export function trompDiagramTikz(data: TrompDiagramRenderData, options: TikzOptions = {}): string {
+  const { unitCm = 0.3, redexColor = 'red' } = options;
+  const draws = data.svgElements.map(element => {
+    const points = element.type === 'line'
+      ? [[element.x1, element.y1], [element.x2, element.y2]]
+      : element.points.trim().split(/\s+/).map(point => point.split(',').map(Number));
+    const style = element.isHighlighted ? '[redex]' : element.isSecondaryHighlight ? '[argument]' : '';
+    return `  \\draw${style} ${points.map(([x, y]) => `(${tikzNumber(x)},${tikzNumber(y)})`).join(' -- ')};`;
+  });
+  return [
+    `\\begin{tikzpicture}[x=${unitCm}cm, y=-${unitCm}cm, line width=0.8pt, line cap=round, line join=round,`,
+    `  redex/.style={${redexColor}, line width=1.6pt}, argument/.style={blue, line width=1.2pt}]`,
+    ...draws,
+    '\\end{tikzpicture}',
+  ].join('\n');
+}
@@ -1,41 +1,122 @@
 
-import type { ASTNode, Variable, Lambda, Application } from './types';
+import type { ASTNode, Variable, Lambda, Application, TypeExpression, TypeOperation } from './types';
 import { generateNodeId } from './types';
+import { addTypeOperations } from './system-f';
 import type { NamedExpression } from './predefined';
-import { predefinedExpressions } from './predefined';
+import type { DataEncoding } from './encodings';
+import { numeralSource, omittedTermMessage, predefinedExpressionsFor } from './encodings';
+import { isBLCInput, decodeBLC, BLCDecodeError } from './blc';
+
+// A token together with the source range it was read from.
+// Offsets are character positions in the top-level input, end exclusive.
+export interface Token {
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface ParseDiagnostic {
+  message: string;
+  start: number;
+  end: number;
+  line: number;   // 1-based
+  column: number; // 1-based
+  expected: string[]; // Token descriptions that would have been accepted here (may be empty)
+}
+
+// Thrown by `parse` and `parseProgram`. Carries every problem found, with source positions;
+// `message` summarizes the first one so plain `catch (e) { e.message }` handlers keep working.
+export class ParseError extends Error {
+  readonly diagnostics: ParseDiagnostic[];
+
+  constructor(diagnostics: ParseDiagnostic[]) {
+    const [first] = diagnostics;
+    const more = diagnostics.length > 1 ? ` (and ${diagnostics.length - 1} more error${diagnostics.length > 2 ? 's' : ''})` : '';
+    super(first ? `Line ${first.line}, column ${first.column}: ${first.message}${more}` : 'Parse error');
+    this.name = 'ParseError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+// Position-only diagnostic used while parsing; line/column are filled in once the full source is known.
+type PendingDiagnostic = Omit<ParseDiagnostic, 'line' | 'column'>;
+
+class PendingParseError extends Error {
+  constructor(readonly diagnostics: PendingDiagnostic[]) {
+    super(diagnostics[0]?.message ?? 'Parse error');
+  }
+}
+
+function locate(source: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < source.length; i++) {
+    if (source[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+function toParseError(error: PendingParseError, source: string): ParseError {
+  return new ParseError(error.diagnostics.map(d => ({ ...d, ...locate(source, d.start) })));
+}
+
+const TERM_START_EXPECTED = ['variable', 'λ', 'Λ', '(', '_NAME'];
+const TYPE_START_EXPECTED = ['type name', '∀', '('];
+
+// Tokens that can only appear inside a term, never start one
+const NON_TERM_TOKENS = ['.', ')', '[', ']', ':', '→', '∀'];
+
+function describeToken(token: Token | null): string {
+  return token ? `"${token.value}"` : 'end of input';
+}
 
 // Parser state (scoped to a parse call)
 interface ParserState {
-  tokens: string[];
+  tokens: Token[];
   currentTokenIndex: number;
+  endOffset: number; // Where "end of input" is reported
   customTerms: NamedExpression[];
+  encoding: DataEncoding; // Representation of `_N` numerals and of the predefined data terms
   // To prevent infinite recursion if a primitive's definition refers to itself directly without expansion
-  parsingPrimitiveStack: string[]; 
+  parsingPrimitiveStack: string[];
 }
 
-function peek(state: ParserState): string | null {
+function peekToken(state: ParserState): Token | null {
   return state.currentTokenIndex < state.tokens.length ? state.tokens[state.currentTokenIndex] : null;
 }
 
+function peek(state: ParserState): string | null {
+  return peekToken(state)?.value ?? null;
+}
+
+function errorAt(state: ParserState, token: Token | null, message: string, expected: string[]): PendingParseError {
+  const start = token ? token.start : state.endOffset;
+  const end = token ? token.end : state.endOffset;
+  return new PendingParseError([{ message, start, end, expected }]);
+}
+
 function consume(state: ParserState, expectedToken?: string): string {
-  const token = state.tokens[state.currentTokenIndex];
-  if (expectedToken && token !== expectedToken) {
-    throw new Error(`Expected token "${expectedToken}" but found "${token}" at index ${state.currentTokenIndex}. Input: '${state.tokens.join(' ')}'`);
+  const token = peekToken(state);
+  if (!token) {
+    throw errorAt(state, null, `Unexpected end of input. Expected ${expectedToken ? '"' + expectedToken + '"' : 'more tokens'}.`, expectedToken ? [expectedToken] : []);
   }
-  if (state.currentTokenIndex >= state.tokens.length) {
-    throw new Error(`Unexpected end of input. Expected ${expectedToken ? '"' + expectedToken + '"' : 'more tokens'}.`);
+  if (expectedToken && token.value !== expectedToken) {
+    throw errorAt(state, token, `Expected "${expectedToken}" but found ${describeToken(token)}.`, [expectedToken]);
   }
   state.currentTokenIndex++;
-  return token;
+  return token.value;
 }
 
-function generateChurchNumeralString(n: number): string {
-  if (n < 0) throw new Error("Church numerals are not defined for negative numbers.");
-  let applications = 'x';
-  for (let i = 0; i < n; i++) {
-    applications = `f (${applications})`;
+// Looks up a `_NAME` token. Later custom terms shadow earlier ones (so script definitions
+// can redefine library terms), and custom terms shadow predefined ones.
+function findNamedTerm(token: string, customTerms: NamedExpression[], encoding: DataEncoding): NamedExpression | undefined {
+  for (let i = customTerms.length - 1; i >= 0; i--) {
+    if (`_${customTerms[i].name}` === token) return customTerms[i];
   }
-  return `(λf.λx.${applications})`;
+  return predefinedExpressionsFor(encoding).find(t => `_${t.name}` === token);
 }
 
 // Main parsing function for a sequence of terms (handles applications)
@@ -43,16 +124,36 @@ function parsePrimaryExpressionSequence(state: ParserState): ASTNode {
   let left = parseTerm(state);
 
   while (peek(state) !== null && peek(state) !== ')' && peek(state) !== '.') {
+    if (peek(state) === '[') {
+      // A type application `M [A]` binds like an application
+      consume(state, '[');
+      const type = parseType(state);
+      consume(state, ']');
+      left = addTypeOperations(left, [{ kind: 'application', type }]);
+      continue;
+    }
     const right = parseTerm(state); // Parse the next term in the sequence
     left = { type: 'application', func: left, arg: right, id: generateNodeId(), sourcePrimitiveName: left.sourcePrimitiveName }; // Preserve tag from left if it's a primitive root
   }
   return left;
 }
 
+// Parses a named term's definition in place of its `_NAME` token. Errors inside the definition
+// are reported at the token, since the definition text is not part of the input being edited.
+function expandNamedTerm(state: ParserState, token: Token, definition: string): ASTNode {
+  try {
+    return parseInternal(definition, state.customTerms, state.encoding, [...state.parsingPrimitiveStack, token.value]);
+  } catch (e) {
+    const inner = e instanceof PendingParseError ? e.diagnostics[0].message : (e instanceof Error ? e.message : String(e));
+    throw errorAt(state, token, `The definition of ${token.value} is invalid: ${inner}`, []);
+  }
+}
+
 // Parses a single term (variable, lambda, parenthesized expression, or primitive)
 function parseTerm(state: ParserState): ASTNode {
-  const token = peek(state);
-  if (!token) throw new Error("Unexpected end of input in parseTerm");
+  const tokenInfo = peekToken(state);
+  if (!tokenInfo) throw errorAt(state, null, "Unexpected end of input: expected a term.", TERM_START_EXPECTED);
+  const token = tokenInfo.value;
 
   if (token.startsWith('_')) {
     consume(state); // Consume the primitive token
@@ -62,125 +163,380 @@ function parseTerm(state: ParserState): ASTNode {
         return { type: 'variable', name: token, id: generateNodeId(), sourcePrimitiveName: token };
     }
 
-    // Check for _N (Church numeral)
+    // Check for _N (numeral in the current encoding)
     if (/^_\d+$/.test(token)) {
       const n = parseInt(token.substring(1), 10);
-      const churchString = generateChurchNumeralString(n);
-      const numeralAst = parseInternal(churchString, state.customTerms, [...state.parsingPrimitiveStack, token]);
-      numeralAst.sourcePrimitiveName = token; 
+      let numeralString: string;
+      try {
+        numeralString = numeralSource(n, state.encoding);
+      } catch (e) {
+        throw errorAt(state, tokenInfo, e instanceof Error ? e.message : String(e), []);
+      }
+      const numeralAst = expandNamedTerm(state, tokenInfo, numeralString);
+      numeralAst.sourcePrimitiveName = token;
       return numeralAst;
     } else {
       // Check for _NAME (predefined or custom term)
-      const allTerms = [...predefinedExpressions, ...state.customTerms];
-      const foundTerm = allTerms.find(t => `_${t.name}` === token);
+      const foundTerm = findNamedTerm(token, state.customTerms, state.encoding);
       if (foundTerm) {
-        const termAst = parseInternal(foundTerm.lambda, state.customTerms, [...state.parsingPrimitiveStack, token]);
-        termAst.sourcePrimitiveName = token; 
+        const termAst = expandNamedTerm(state, tokenInfo, foundTerm.lambda);
+        termAst.sourcePrimitiveName = token;
         return termAst;
       } else {
+        const omitted = omittedTermMessage(token.slice(1), state.encoding);
+        if (omitted) throw errorAt(state, tokenInfo, omitted, []);
         // If not a known _N or _NAME, treat as a regular variable starting with _
         return { type: 'variable', name: token, id: generateNodeId(), sourcePrimitiveName: token };
       }
     }
   } else if (token === '\\') {
     return parseLambda(state);
+  } else if (token === 'Λ') {
+    return parseTypeAbstraction(state);
   } else if (token === '(') {
     consume(state, '(');
     const expr = parsePrimaryExpressionSequence(state);
-    if (expr.sourcePrimitiveName && peek(state) === ')') {
-        // If a parenthesized expression resolves to a tagged primitive, and it's the end of the paren group,
-        // its tag should be preserved.
-        // This is implicitly handled if parsePrimaryExpressionSequence correctly propagates tags.
-    }
     consume(state, ')');
     return expr;
   } else {
-    if (token === '.' || token === ')') throw new Error(`Unexpected token "${token}" when expecting a variable, lambda, or parenthesized expression.`);
+    if (NON_TERM_TOKENS.includes(token)) {
+      throw errorAt(state, tokenInfo, `Unexpected token "${token}" when expecting a variable, lambda, or parenthesized expression.`, TERM_START_EXPECTED);
+    }
     // Regular variables are not primitives themselves, so no sourcePrimitiveName by default
     return { type: 'variable', name: consume(state), id: generateNodeId() };
   }
 }
 
+// Parses `λx.M`, and the curried shorthand `λx y z.M`, which desugars to `λx.λy.λz.M`.
+// Each parameter may be annotated with its type: `λx:A.M`, `λf:A → B x:A.M`.
 function parseLambda(state: ParserState): Lambda {
   consume(state, '\\');
-  const paramToken = peek(state);
-  if (!paramToken || paramToken === '.' || paramToken === '(' || paramToken === ')') {
-      throw new Error(`Invalid parameter name: expected variable after lambda but found "${paramToken || 'end of input'}"`);
-  }
-  const param = consume(state);
-  if (!param.match(/^[a-zA-Z_][a-zA-Z0-9_']*$/) && !param.match(/^_[a-zA-Z0-9_']*$/)) {
-      throw new Error(`Invalid parameter name syntax: "${param}"`);
+  const params: string[] = [];
+  const paramTypes: (TypeExpression | undefined)[] = [];
+  do {
+    const paramToken = peekToken(state);
+    if (!paramToken || paramToken.value === '.' || paramToken.value === '(' || paramToken.value === ')' || paramToken.value === '\\') {
+        const expected = params.length > 0 ? ['variable', '.'] : ['variable'];
+        throw errorAt(state, paramToken, `Invalid parameter name: expected variable after lambda but found ${describeToken(paramToken)}.`, expected);
+    }
+    const param = consume(state);
+    if (!param.match(/^[a-zA-Z_][a-zA-Z0-9_']*$/) && !param.match(/^_[a-zA-Z0-9_']*$/)) {
+        throw errorAt(state, paramToken, `Invalid parameter name syntax: "${param}"`, ['variable']);
+    }
+    params.push(param);
+    if (peek(state) === ':') {
+      consume(state, ':');
+      paramTypes.push(parseType(state));
+    } else {
+      paramTypes.push(undefined);
+    }
+  } while (peek(state) !== '.' && peek(state) !== null);
+  consume(state, '.');
+  const body = parsePrimaryExpressionSequence(state);
+  // Lambdas are not primitives themselves unless they are the root of a _NAME definition.
+  // Build the nested chain from the innermost parameter outwards.
+  const makeLambda = (i: number, body: ASTNode): Lambda => {
+    const lambda: Lambda = { type: 'lambda', param: params[i], body, id: generateNodeId() };
+    if (paramTypes[i]) lambda.paramType = paramTypes[i];
+    return lambda;
+  };
+  let lambda = makeLambda(params.length - 1, body);
+  for (let i = params.length - 2; i >= 0; i--) {
+    lambda = makeLambda(i, lambda);
   }
+  return lambda;
+}
+
+// Parses the System F type abstraction `Λα.M`, and `Λα β.M` for `Λα.Λβ.M`. There is no node for
+// it: the abstraction is recorded on the node of M (see TypeOperation).
+function parseTypeAbstraction(state: ParserState): ASTNode {
+  consume(state, 'Λ');
+  const params: string[] = [];
+  do {
+    params.push(parseTypeName(state));
+  } while (peek(state) !== '.' && peek(state) !== null);
   consume(state, '.');
   const body = parsePrimaryExpressionSequence(state);
-  // Lambdas are not primitives themselves unless they are the root of a _NAME definition
-  return { type: 'lambda', param, body, id: generateNodeId() };
+  const abstractions: TypeOperation[] = params.reverse().map(param => ({ kind: 'abstraction', param }));
+  return addTypeOperations(body, abstractions);
 }
 
-// Tokenizer
-function tokenize(input: string): string[] {
-  // Step 1: Replace actual lambda character with backslash for internal consistency.
-  const partiallySanitizedInput = input.replace(/λ/g, '\\');
-  
-  // Step 2: Tokenize using the refined regex.
-  // Order of regex parts matters:
-  // 1. Special single characters: \, (, ), .
-  // 2. _Number: `_` followed by digits (e.g., _0, _123)
-  // 3. _Name: `_` followed by a letter or underscore, then letters, digits, or underscores (e.g., _ID, _POW, _myVar)
-  // 4. PlainVarOrL: A letter, followed by letters, digits, or underscores (e.g., x, varName, L)
-  const regex = /(\\)|(\()|(\))|(\.)|(_\d+)|(_[a-zA-Z_][a-zA-Z0-9_]*)|([a-zA-Z][a-zA-Z0-9_]*)/g;
-
-  const rawTokens: string[] = [];
-  let match;
-  while ((match = regex.exec(partiallySanitizedInput)) !== null) {
-    // Add the first non-null captured group
-    for (let i = 1; i < match.length; i++) {
-      if (match[i]) {
-        rawTokens.push(match[i]);
-        break;
-      }
+// --- Types ---
+// `A → B` is right-associative, `∀α.A` (or `forall α.A`) extends as far right as possible.
+// `->` is accepted for `→`.
+
+const TYPE_NAME_REGEX = /^[a-zA-Zα-κμ-ωΑ-ΚΜ-Ω][a-zA-Z0-9_']*$/;
+
+function parseTypeName(state: ParserState): string {
+  const token = peekToken(state);
+  if (!token || !TYPE_NAME_REGEX.test(token.value) || token.value === 'forall') {
+    throw errorAt(state, token, `Expected a type name but found ${describeToken(token)}.`, ['type name']);
+  }
+  return consume(state);
+}
+
+function parseType(state: ParserState): TypeExpression {
+  const token = peekToken(state);
+  if (token && (token.value === '∀' || token.value === 'forall')) {
+    consume(state);
+    const params: string[] = [];
+    do {
+      params.push(parseTypeName(state));
+    } while (peek(state) !== '.' && peek(state) !== null);
+    consume(state, '.');
+    let type = parseType(state);
+    for (let i = params.length - 1; i >= 0; i--) {
+      type = { kind: 'forall', param: params[i], body: type };
     }
+    return type;
+  }
+  const from = parseAtomicType(state);
+  if (peek(state) === '→') {
+    consume(state, '→');
+    return { kind: 'arrow', from, to: parseType(state) };
   }
-  
-  // Step 3: Post-process tokens. If a token is exactly "L" (captured as a plain variable),
-  // change it to "\" to represent a lambda.
-  const finalTokens = rawTokens.map(token => {
-    if (token === 'L') {
-      return '\\';
+  return from;
+}
+
+function parseAtomicType(state: ParserState): TypeExpression {
+  const token = peekToken(state);
+  if (token?.value === '(') {
+    consume(state, '(');
+    const type = parseType(state);
+    consume(state, ')');
+    return type;
+  }
+  if (!token || !TYPE_NAME_REGEX.test(token.value)) {
+    throw errorAt(state, token, `Expected a type but found ${describeToken(token)}.`, TYPE_START_EXPECTED);
+  }
+  return { kind: 'var', name: parseTypeName(state) };
+}
+
+// Tokenizer
+// Order of regex parts matters:
+// 1. Special characters: \, λ, (, ), ., and for typed terms Λ (or /\), :, [, ], → (or ->), ∀
+// 2. _Number: `_` followed by digits (e.g., _0, _123)
+// 3. _Name: `_` followed by a letter or underscore, then letters, digits, or underscores,
+//    optionally joined by single hyphens (e.g., _ID, _POW, _myVar, _Y-COMB)
+// 4. PlainVarOrL: A Latin or Greek letter other than λ and Λ, followed by letters, digits,
+//    underscores or primes (e.g., x, varName, x', L, α)
+const TOKEN_REGEX = /(\/\\|Λ)|(\\|λ)|(\()|(\))|(\.)|(:)|(\[)|(\])|(→|->)|(∀)|(_\d+)|(_[a-zA-Z_][a-zA-Z0-9_]*(?:-[a-zA-Z0-9_]+)*)|([a-zA-Zα-κμ-ωΑ-ΚΜ-Ω][a-zA-Z0-9_']*)/y;
+
+// `offset` is the position of `input` within the top-level source, so spans stay absolute.
+// Unknown characters are collected (adjacent ones merged) and reported together.
+function tokenize(input: string, offset: number = 0): Token[] {
+  const tokens: Token[] = [];
+  const unknown: PendingDiagnostic[] = [];
+  let pos = 0;
+
+  while (pos < input.length) {
+    if (/\s/.test(input[pos])) {
+      pos++;
+      continue;
     }
-    return token;
-  });
-  
-  return finalTokens;
+    TOKEN_REGEX.lastIndex = pos;
+    const match = TOKEN_REGEX.exec(input);
+    if (match) {
+      // Normalize the actual lambda character and a standalone "L" to backslash, and the ASCII spellings
+      let value = match[0];
+      if (value === 'λ' || value === 'L') value = '\\';
+      if (value === '/\\') value = 'Λ';
+      if (value === '->') value = '→';
+      tokens.push({ value, start: offset + pos, end: offset + pos + match[0].length });
+      pos += match[0].length;
+      continue;
+    }
+
+    const last = unknown[unknown.length - 1];
+    if (last && last.end === offset + pos) {
+      last.end++;
+      last.message = `Unknown characters "${input.slice(last.start - offset, last.end - offset)}".`;
+    } else {
+      unknown.push({ message: `Unknown character "${input[pos]}".`, start: offset + pos, end: offset + pos + 1, expected: [] });
+    }
+    pos++;
+  }
+
+  if (unknown.length > 0) {
+    throw new PendingParseError(unknown);
+  }
+  return tokens;
 }
 
 
-// Internal parse function that takes an input string and sets up state
-function parseInternal(input: string, customTerms: NamedExpression[], parsingPrimitiveStack: string[] = []): ASTNode {
+// Internal parse function that takes an input string and sets up state.
+// Throws PendingParseError; the public entry points convert it to ParseError.
+function parseInternal(input: string, customTerms: NamedExpression[], encoding: DataEncoding, parsingPrimitiveStack: string[] = [], offset: number = 0): ASTNode {
   if (typeof input !== 'string' || !input.trim()) {
-    throw new Error("Input expression cannot be empty or is not a string for internal parse.");
+    throw new PendingParseError([{ message: "Input expression cannot be empty.", start: offset, end: offset + (input?.length ?? 0), expected: TERM_START_EXPECTED }]);
   }
-  
+
   const state: ParserState = {
-    tokens: tokenize(input),
+    tokens: tokenize(input, offset),
     currentTokenIndex: 0,
+    endOffset: offset + input.trimEnd().length,
     customTerms: customTerms,
+    encoding,
     parsingPrimitiveStack: parsingPrimitiveStack,
   };
 
   if (state.tokens.length === 0) {
-    throw new Error(`Could not tokenize input: "${input}". No valid tokens found.`);
+    throw new PendingParseError([{ message: "No valid tokens found.", start: offset, end: offset + input.length, expected: TERM_START_EXPECTED }]);
   }
 
   const ast = parsePrimaryExpressionSequence(state);
 
-  if (peek(state) !== null) {
-    throw new Error(`Unexpected token "${peek(state)}" after parsing. Remaining tokens: ${state.tokens.slice(state.currentTokenIndex).join(' ')}`);
+  const leftover = peekToken(state);
+  if (leftover !== null) {
+    const hint = leftover.value === ')' ? ' There is no matching "(".' : '';
+    throw errorAt(state, leftover, `Unexpected token ${describeToken(leftover)} after the end of the expression.${hint}`, ['end of input', ...TERM_START_EXPECTED]);
   }
   return ast;
 }
 
 // Public parse function
-export function parse(input: string, customTerms: NamedExpression[] = []): ASTNode {
-  return parseInternal(input, customTerms, []);
+export function parse(input: string, customTerms: NamedExpression[] = [], encoding: DataEncoding = 'church'): ASTNode {
+  try {
+    return parseInternal(input, customTerms, encoding, []);
+  } catch (e) {
+    if (e instanceof PendingParseError) throw toParseError(e, input);
+    throw e;
+  }
+}
+
+// --- Definition scripts ---
+//
+// A script is a sequence of definitions followed by at most one final expression:
+//
+//   -- Church pairs
+//   let PAIR = λa.λb.λf.f a b;
+//   FST := λp.p _TRUE
+//   _FST (_PAIR x y)
+//
+// `let NAME = term;` runs until the semicolon and may span several lines. `NAME := term`
+// runs until the end of its line (or a semicolon). Comments start with `--` or `#`.
+// Each definition can use the ones before it through the usual `_NAME` expansion.
+
+export interface Definition {
+  name: string;
+  lambda: string; // Source text of the defined term, re-parsed on each `_NAME` use
+  ast: ASTNode;
+}
+
+export interface Program {
+  type: 'program';
+  definitions: Definition[];
+  body: ASTNode | null; // The final expression, if the script has one
+}
+
+const LET_DEFINITION_REGEX = /^let\s+_?([a-zA-Z][a-zA-Z0-9_]*)\s*=(?!=)/;
+const ASSIGN_DEFINITION_REGEX = /^_?([a-zA-Z][a-zA-Z0-9_]*)\s*:=/;
+
+// Blanks out comments while keeping every other character at its original offset.
+function stripComments(input: string): string {
+  return input.replace(/(--|#)[^\n]*/g, comment => ' '.repeat(comment.length));
+}
+
+// Turns the definitions of a parsed program into named terms usable as `customTerms`.
+export function programDefinitionsAsNamedExpressions(program: Program): NamedExpression[] {
+  return program.definitions.map(def => ({ name: def.name, lambda: def.lambda, description: 'Defined in the current script' }));
+}
+
+// Input made only of 0s and 1s is a binary lambda calculus term rather than a script.
+function parseBLCProgram(input: string): Program {
+  try {
+    return { type: 'program', definitions: [], body: decodeBLC(input) };
+  } catch (e) {
+    if (e instanceof BLCDecodeError) {
+      throw toParseError(new PendingParseError([{ message: e.message, start: e.start, end: e.end, expected: [] }]), input);
+    }
+    throw e;
+  }
+}
+
+// Parses a script. A broken statement does not stop the rest from being parsed: all
+// problems are collected and thrown together as one ParseError at the end.
+export function parseProgram(input: string, customTerms: NamedExpression[] = [], encoding: DataEncoding = 'church'): Program {
+  if (isBLCInput(input)) return parseBLCProgram(input);
+  const source = stripComments(input);
+  const definitions: Definition[] = [];
+  const diagnostics: PendingDiagnostic[] = [];
+  let scope = [...customTerms];
+  let body: ASTNode | null = null;
+  let bodyParsed = false;
+  let pos = 0;
+
+  const skipSeparators = () => {
+    while (pos < source.length && /[\s;]/.test(source[pos])) pos++;
+  };
+
+  const collect = (e: unknown) => {
+    if (e instanceof PendingParseError) diagnostics.push(...e.diagnostics);
+    else throw e;
+  };
+
+  skipSeparators();
+  while (pos < source.length) {
+    const rest = source.slice(pos);
+    const letMatch = rest.match(LET_DEFINITION_REGEX);
+    const assignMatch = letMatch ? null : rest.match(ASSIGN_DEFINITION_REGEX);
+
+    if (bodyParsed) {
+      const word = rest.trim().split(/\s+/)[0];
+      diagnostics.push({
+        message: `Unexpected "${word}" after the final expression. Definitions must come before the expression to evaluate.`,
+        start: pos, end: pos + word.length, expected: ['end of input'],
+      });
+      break;
+    }
+
+    if (letMatch || assignMatch) {
+      const match = (letMatch || assignMatch)!;
+      const name = match[1];
+      const nameStart = pos + match[0].indexOf(name);
+      const termStart = pos + match[0].length;
+      // `let` runs to the next semicolon; `:=` to the end of its line or a semicolon
+      const terminator = letMatch ? /;/g : /[;\n]/g;
+      terminator.lastIndex = termStart;
+      const terminatorMatch = terminator.exec(source);
+      const termEnd = terminatorMatch ? terminatorMatch.index : source.length;
+      const lambda = source.slice(termStart, termEnd).trim();
+      pos = termEnd;
+
+      if (!lambda) {
+        diagnostics.push({ message: `Definition of "${name}" has no term.`, start: nameStart, end: termEnd, expected: TERM_START_EXPECTED });
+      } else if (definitions.some(def => def.name === name)) {
+        diagnostics.push({ message: `"${name}" is defined more than once in this script.`, start: nameStart, end: nameStart + name.length, expected: [] });
+      } else {
+        try {
+          const ast = parseInternal(source.slice(termStart, termEnd), scope, encoding, [`_${name}`], termStart);
+          ast.sourcePrimitiveName = `_${name}`;
+          definitions.push({ name, lambda, ast });
+          scope = [...scope, { name, lambda }];
+        } catch (e) {
+          collect(e);
+        }
+      }
+    } else {
+      // Anything else is the final expression, which runs to a semicolon, a line starting
+      // another definition (reported above), or the end of the script
+      const boundary = /;|\n(?=[ \t]*(?:let\s+_?[a-zA-Z][a-zA-Z0-9_]*\s*=(?!=)|_?[a-zA-Z][a-zA-Z0-9_]*\s*:=))/g;
+      boundary.lastIndex = pos;
+      const boundaryMatch = boundary.exec(source);
+      const exprEnd = boundaryMatch ? boundaryMatch.index : source.length;
+      try {
+        body = parseInternal(source.slice(pos, exprEnd), scope, encoding, [], pos);
+      } catch (e) {
+        collect(e);
+      }
+      bodyParsed = true;
+      pos = exprEnd;
+    }
+    skipSeparators();
+  }
+
+  if (diagnostics.length > 0) {
+    throw toParseError(new PendingParseError(diagnostics), input);
+  }
+  return { type: 'program', definitions, body };
 }
@@ -1,25 +1,47 @@
 
+import { standardLibraryExpressions } from './standard-library';
+
+export type TermCategory = 'combinators' | 'booleans' | 'numerals' | 'arithmetic' | 'comparison' | 'pairs' | 'lists' | 'recursion';
+
+export interface TermCategoryInfo {
+  id: TermCategory;
+  label: string;
+}
+
+export const termCategories: TermCategoryInfo[] = [
+  { id: 'combinators', label: 'Combinators' },
+  { id: 'booleans', label: 'Booleans' },
+  { id: 'numerals', label: 'Numerals' },
+  { id: 'arithmetic', label: 'Arithmetic' },
+  { id: 'comparison', label: 'Comparison' },
+  { id: 'pairs', label: 'Pairs' },
+  { id: 'lists', label: 'Lists' },
+  { id: 'recursion', label: 'Recursion' },
+];
+
 export interface NamedExpression {
   name: string;
   lambda: string;
   description?: string;
+  category?: TermCategory; // Set for predefined terms only
 }
 
+// The basic terms, followed by the standard library built from them (standard-library.ts)
 export const predefinedExpressions: NamedExpression[] = [
-  { name: "ID", lambda: "λx.x", description: "Identity function (I)" },
-  { name: "TRUE", lambda: "λx.λy.x", description: "Church Boolean True (Kestrel)" },
-  { name: "FALSE", lambda: "λx.λy.y", description: "Church Boolean False (Kite)" },
-  { name: "NOT", lambda: "λp.p (λx.λy.y) (λx.λy.x)", description: "Boolean NOT (λp.p FALSE TRUE)" },
-  { name: "AND", lambda: "λp.λq.p q (λx.λy.y)", description: "Boolean AND (λp.λq.p q FALSE)" },
-  { name: "OR", lambda: "λp.λq.p (λx.λy.x) q", description: "Boolean OR (λp.λq.p TRUE q)" },
-  { name: "0", lambda: "λf.λx.x", description: "Church Numeral 0" },
-  { name: "1", lambda: "λf.λx.f x", description: "Church Numeral 1" },
-  { name: "2", lambda: "λf.λx.f (f x)", description: "Church Numeral 2" },
-  { name: "3", lambda: "λf.λx.f (f (f x))", description: "Church Numeral 3" },
-  { name: "SUCC", lambda: "λn.λf.λx.f (n f x)", description: "Successor: λn.λf.λx.f (n f x)" },
-  { name: "PLUS", lambda: "λm.λn.λf.λx.m f (n f x)", description: "Addition: λm.λn.λf.λx.m f (n f x)" },
-  { name: "MULT", lambda: "λm.λn.λf.m (n f)", description: "Multiplication: λm.λn.λf.m (n f)" },
-  { name: "POW", lambda: "λb.λe.e b", description: "Exponentiation (b^e): λb.λe.e b (base, exponent)"},
-  { name: "Y-COMB", lambda: "λf.(λx.f (x x)) (λx.f (x x))", description: "Y Combinator (fixed-point combinator)" },
+  { name: "ID", lambda: "λx.x", description: "Identity function (I)", category: 'combinators' },
+  { name: "TRUE", lambda: "λx.λy.x", description: "Church Boolean True (Kestrel)", category: 'booleans' },
+  { name: "FALSE", lambda: "λx.λy.y", description: "Church Boolean False (Kite)", category: 'booleans' },
+  { name: "NOT", lambda: "λp.p (λx.λy.y) (λx.λy.x)", description: "Boolean NOT (λp.p FALSE TRUE)", category: 'booleans' },
+  { name: "AND", lambda: "λp.λq.p q (λx.λy.y)", description: "Boolean AND (λp.λq.p q FALSE)", category: 'booleans' },
+  { name: "OR", lambda: "λp.λq.p (λx.λy.x) q", description: "Boolean OR (λp.λq.p TRUE q)", category: 'booleans' },
+  { name: "0", lambda: "λf.λx.x", description: "Church Numeral 0", category: 'numerals' },
+  { name: "1", lambda: "λf.λx.f x", description: "Church Numeral 1", category: 'numerals' },
+  { name: "2", lambda: "λf.λx.f (f x)", description: "Church Numeral 2", category: 'numerals' },
+  { name: "3", lambda: "λf.λx.f (f (f x))", description: "Church Numeral 3", category: 'numerals' },
+  { name: "SUCC", lambda: "λn.λf.λx.f (n f x)", description: "Successor: λn.λf.λx.f (n f x)", category: 'arithmetic' },
+  { name: "PLUS", lambda: "λm.λn.λf.λx.m f (n f x)", description: "Addition: λm.λn.λf.λx.m f (n f x)", category: 'arithmetic' },
+  { name: "MULT", lambda: "λm.λn.λf.m (n f)", description: "Multiplication: λm.λn.λf.m (n f)", category: 'arithmetic' },
+  { name: "POW", lambda: "λb.λe.e b", description: "Exponentiation (b^e): λb.λe.e b (base, exponent)", category: 'arithmetic' },
+  { name: "Y-COMB", lambda: "λf.(λx.f (x x)) (λx.f (x x))", description: "Y Combinator (fixed-point combinator)", category: 'recursion' },
+  ...standardLibraryExpressions,
 ];
-
@@ -1,28 +1,38 @@
 
-import type { ASTNode } from './types';
+import type { ASTNode, Lambda } from './types';
 import type { NamedExpression } from './predefined';
 import { parse } from './parser';
 import { print } from './printer';
-
-interface ProcessedNamedTerm {
-  name: string;
-  lambda: string; // original lambda string
-  printedLambda: string; // canonical printed form
+import type { PrintOptions } from './printer';
+import { alphaEquivalent, deBruijnKey } from './de-bruijn';
+import type { DataEncoding } from './encodings';
+import { printBinderType, printTypeOperations, termShape } from './system-f';
+
+// Maps the De Bruijn key of each recognizable named term to its name. Terms are alpha-equivalent
+// exactly when their keys are equal, so a single lookup per node replaces string comparison.
+// Numerals are recognized structurally, in the encoding the terms were parsed with.
+interface NamedTermIndex {
+  names: Map<string, string>;
+  encoding: DataEncoding;
 }
 
-// Pre-processes named expressions to get their canonical printed form and sort them for greedy matching.
+// Pre-processes named expressions into a lookup by De Bruijn key.
 function getProcessedNamedTerms(
   customExpressions: NamedExpression[],
-  predefinedExpressionsForContext: NamedExpression[]
-): ProcessedNamedTerm[] {
+  predefinedExpressionsForContext: NamedExpression[],
+  encoding: DataEncoding
+): NamedTermIndex {
   const allExpressions = [...predefinedExpressionsForContext, ...customExpressions];
-  const processedTerms: ProcessedNamedTerm[] = [];
+  const processedTerms = new Map<string, string>();
 
   for (const expr of allExpressions) {
     try {
       // Parse in isolation (no custom terms from the main context, only predefined if absolutely necessary for this term itself, but usually not)
-      const ast = parse(expr.lambda, []); 
-      const printed = print(ast, 'top'); // Get canonical form for matching
+      const ast = parse(expr.lambda, [], encoding);
+      const printed = print(ast, 'top'); // Canonical form, used only to judge whether the term is worth naming
+      const key = deBruijnKey(ast);
+      // On a key collision the earlier term keeps the name (predefined terms come first)
+      if (processedTerms.has(key)) continue;
 
       // Filter out very simple terms or those whose printed form is trivial (e.g. just a variable name).
       const isComplexEnough = printed.length > 0 && (printed.includes('λ') || printed.includes('(') || printed.length > 5);
@@ -30,18 +40,10 @@ function getProcessedNamedTerms(
 
 
       if (printed.length > 0 && isComplexEnough && isNotJustAVariable) {
-        processedTerms.push({
-          name: expr.name,
-          lambda: expr.lambda,
-          printedLambda: printed,
-        });
+        processedTerms.set(key, expr.name);
       } else if (printed.length > 0 && expr.name.match(/^([0-9]+|TRUE|FALSE)$/i)) { 
         // Allow specific simple predefined terms like numbers (0,1,2,3) or booleans.
-         processedTerms.push({
-          name: expr.name,
-          lambda: expr.lambda,
-          printedLambda: printed,
-        });
+        processedTerms.set(key, expr.name);
       }
 
     } catch (e) {
@@ -50,9 +52,7 @@ function getProcessedNamedTerms(
     }
   }
 
-  // Sort by length of printedLambda, longest first for greedy matching.
-  processedTerms.sort((a, b) => b.printedLambda.length - a.printedLambda.length);
-  return processedTerms;
+  return { names: processedTerms, encoding };
 }
 
 // Tries to interpret an ASTNode as a Church numeral.
@@ -95,18 +95,47 @@ function tryGetChurchNumeralValue(node: ASTNode): number | null {
   return null; 
 }
 
-
-export function prettifyAST(
-  node: ASTNode | null,
-  customExpressions: NamedExpression[],
-  predefinedExpressionsForContext: NamedExpression[]
-): string {
-  if (!node) {
-    return "";
+// Tries to interpret an ASTNode as a Scott (n+1 = λs.λz.s n) or Parigot (n+1 = λs.λz.s n (n s z))
+// numeral. Both have 0 = λs.λz.z and contain their predecessor, so this follows it down. A
+// Parigot numeral is matched in normal form, where `n s z` has become n's body.
+function tryGetDataNumeralValue(node: ASTNode, encoding: 'scott' | 'parigot'): number | null {
+  const MAX_NUMERAL_DEPTH = 200;
+  let current = node;
+  for (let count = 0; count <= MAX_NUMERAL_DEPTH; count++) {
+    if (current.type !== 'lambda' || current.body.type !== 'lambda') return null;
+    const sParamName = current.param;
+    const zParamName = current.body.param;
+    const body = current.body.body;
+    if (body.type === 'variable' && body.name === zParamName && sParamName !== zParamName) {
+      return count;
+    }
+    // Scott: s M. Parigot: s M (M s z), matched from the outside in
+    let successor = body;
+    if (encoding === 'parigot') {
+      if (successor.type !== 'application') return null;
+      const recursion = successor.arg;
+      successor = successor.func;
+      const predecessor = successor.type === 'application' ? successor.arg : null;
+      // Rebinding the recursion under this numeral's s and z must give back the predecessor
+      if (!predecessor || !alphaEquivalent({ ...current, body: { ...current.body, body: recursion } }, predecessor)) {
+        return null;
+      }
+    }
+    if (successor.type !== 'application' || successor.func.type !== 'variable' || successor.func.name !== sParamName) return null;
+    current = successor.arg;
   }
+  return null;
+}
+
+function tryGetNumeralValue(node: ASTNode, encoding: DataEncoding): number | null {
+  return encoding === 'church' ? tryGetChurchNumeralValue(node) : tryGetDataNumeralValue(node, encoding);
+}
 
-  // Attempt to recognize if the entire AST is a Church numeral
-  const numeralValue = tryGetChurchNumeralValue(node);
+
+// Returns the `_NAME` for a node that is recognizably a numeral or named term, or null.
+function recognizeNamedTerm(node: ASTNode, allProcessableTerms: NamedTermIndex): string | null {
+  // Attempt to recognize if the entire AST is a numeral
+  const numeralValue = tryGetNumeralValue(node, allProcessableTerms.encoding);
   if (numeralValue !== null) {
     return `_${numeralValue}`;
   }
@@ -117,27 +146,50 @@ export function prettifyAST(
     return node.sourcePrimitiveName;
   }
 
-  const allProcessableTerms = getProcessedNamedTerms(customExpressions, predefinedExpressionsForContext);
-  const printedCurrentNodeCanonical = print(node); // Uses default 'top' context
+  const termName = allProcessableTerms.names.get(deBruijnKey(node));
+  return termName !== undefined ? `_${termName}` : null;
+}
 
-  for (const term of allProcessableTerms) {
-    // Compare trimmed canonical forms for robustness
-    if (printedCurrentNodeCanonical.trim() === term.printedLambda.trim()) {
-      return `_${term.name}`;
-    }
+// `binders` lists the enclosing lambda params (innermost last); it is only consulted in De Bruijn notation.
+function prettifyRecursive(node: ASTNode, allProcessableTerms: NamedTermIndex, options: PrintOptions, binders: string[] = []): string {
+  // Named terms are untyped, so a node with its own type annotations is never shown as one
+  const recognizedName = hasOwnTypeAnnotations(node) ? null : recognizeNamedTerm(node, allProcessableTerms);
+  if (recognizedName !== null) {
+    return recognizedName;
+  }
+  if (options.notation === 'de-bruijn') {
+    return prettifyUntyped(node, allProcessableTerms, options, binders);
   }
+  return printTypeOperations(prettifyUntyped(node, allProcessableTerms, options, binders), node);
+}
+
+function hasOwnTypeAnnotations(node: ASTNode): boolean {
+  return !!node.typeOperations?.length || (node.type === 'lambda' && !!node.paramType);
+}
+
+// Prettifies a node that is not a named term itself, leaving out its type operations
+function prettifyUntyped(node: ASTNode, allProcessableTerms: NamedTermIndex, options: PrintOptions, binders: string[]): string {
 
   // If no direct match for the whole node, recurse for children
   if (node.type === 'variable') {
-    return node.name; 
+    const position = binders.lastIndexOf(node.name);
+    return options.notation === 'de-bruijn' && position !== -1 ? String(binders.length - position) : node.name;
   } else if (node.type === 'lambda') {
-    const bodyStr = prettifyAST(node.body, customExpressions, predefinedExpressionsForContext);
-    // Using original param name for lambda if it's not a matched term.
-    const lambdaStr = `λ${node.param}.${bodyStr}`;
-    return lambdaStr; 
+    // Using original param names for lambdas that are not matched terms.
+    // In compact mode, nested lambdas join the binder list unless they are themselves a named term.
+    const params = [node.param];
+    const paramLabels = [binderLabel(node)];
+    let innermostBody = node.body;
+    while (options.compactLambdas && options.notation !== 'de-bruijn' && innermostBody.type === 'lambda' && !innermostBody.typeOperations?.length && recognizeNamedTerm(innermostBody, allProcessableTerms) === null) {
+      params.push(innermostBody.param);
+      paramLabels.push(binderLabel(innermostBody));
+      innermostBody = innermostBody.body;
+    }
+    const bodyStr = prettifyRecursive(innermostBody, allProcessableTerms, options, [...binders, ...params]);
+    return options.notation === 'de-bruijn' ? `λ ${bodyStr}` : `λ${paramLabels.join(' ')}.${bodyStr}`;
   } else if (node.type === 'application') {
-    const funcStr = prettifyAST(node.func, customExpressions, predefinedExpressionsForContext);
-    const argStr = prettifyAST(node.arg, customExpressions, predefinedExpressionsForContext);
+    const funcStr = prettifyRecursive(node.func, allProcessableTerms, options, binders);
+    const argStr = prettifyRecursive(node.arg, allProcessableTerms, options, binders);
     
     let result = "";
     if (needsParentheses(node.func, 'func')) {
@@ -154,14 +206,43 @@ export function prettifyAST(
     return result;
   }
 
-  return print(node); // Fallback to canonical print if no other case applies (should be rare)
+  return print(node, 'top', options); // Fallback to canonical print if no other case applies (should be rare)
+}
+
+function binderLabel(lambda: Lambda): string {
+  return lambda.paramType ? `${lambda.param}:${printBinderType(lambda.paramType)}` : lambda.param;
+}
+
+export function prettifyAST(
+  node: ASTNode | null,
+  customExpressions: NamedExpression[],
+  predefinedExpressionsForContext: NamedExpression[],
+  options: PrintOptions = {},
+  encoding: DataEncoding = 'church'
+): string {
+  if (!node) {
+    return "";
+  }
+  const allProcessableTerms = getProcessedNamedTerms(customExpressions, predefinedExpressionsForContext, encoding);
+  return prettifyRecursive(node, allProcessableTerms, options);
+}
+
+// Names the nodes that prettifyAST shows as named terms or numerals (`_PLUS`, `_2`), for other printers
+export function namedTermRecognizer(
+  customExpressions: NamedExpression[],
+  predefinedExpressionsForContext: NamedExpression[],
+  encoding: DataEncoding = 'church'
+): (node: ASTNode) => string | null {
+  const allProcessableTerms = getProcessedNamedTerms(customExpressions, predefinedExpressionsForContext, encoding);
+  return node => (hasOwnTypeAnnotations(node) ? null : recognizeNamedTerm(node, allProcessableTerms));
 }
 
 // Helper from printer.ts, needed for application parenthesizing
 // This might ideally be imported or refactored into a shared util if used in multiple places.
 function needsParentheses(node: ASTNode, context: 'func' | 'arg' | 'body' | 'top'): boolean {
-  if (node.type === 'lambda' && (context === 'func' || context === 'arg')) return true;
-  if (node.type === 'application' && context === 'arg') return true;
-  if (node.type === 'application' && context === 'func') return true; 
+  const shape = termShape(node);
+  if (shape === 'lambda' && (context === 'func' || context === 'arg')) return true;
+  if (shape === 'application' && context === 'arg') return true;
+  if (shape === 'application' && context === 'func') return true; 
   return false;
 }
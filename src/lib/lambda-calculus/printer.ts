@@ -1,17 +1,31 @@
 
 import type { ASTNode, Lambda, Application } from './types';
+import { toDeBruijn, printDeBruijn } from './de-bruijn';
+import { printBinderType, printTypeOperations, termShape } from './system-f';
 
 // Determines if parentheses are needed around a node in a given context.
+// Type operations count: `Λα.M` parses like a lambda, `M [A]` like an application.
 function needsParentheses(node: ASTNode, context: 'func' | 'arg' | 'body' | 'top'): boolean {
-  if (node.type === 'lambda' && (context === 'func' || context === 'arg')) return true;
-  if (node.type === 'application' && context === 'arg') return true;
-  if (node.type === 'application' && context === 'func') return true;
+  const shape = termShape(node);
+  if (shape === 'lambda' && (context === 'func' || context === 'arg')) return true;
+  if (shape === 'application' && context === 'arg') return true;
+  if (shape === 'application' && context === 'func') return true;
   return false;
 }
 
 // --- Canonical Printing Logic ---
 
+export interface PrintOptions {
+  // Re-sugar directly nested lambdas: `λx.λy.M` prints as `λx y.M`
+  compactLambdas?: boolean;
+  // 'de-bruijn' replaces bound variables with their indices: `λx.λy.x` prints as `λ λ 2`
+  notation?: 'named' | 'de-bruijn';
+  // Keep the original parameter names instead of canonical @a, @b (e.g. for terms shown next to an environment)
+  keepNames?: boolean;
+}
+
 interface PrintState {
+  options: PrintOptions;
   canonicalVarCounter: number;
   // Maps original_param_name bound in the current print recursion
   // to its canonical_param_name (e.g., @a, @b)
@@ -42,26 +56,33 @@ function _printRecursive(
       result = state.boundVarsMap.get(node.name) || node.name;
       break;
     case 'lambda':
-      const lambdaNode = node as Lambda;
-      const canonicalParamName = getCanonicalVarName(state.canonicalVarCounter);
-      state.canonicalVarCounter++; // Increment for the next distinct bound variable
-
       // Create a new map for the body's scope, inheriting parent scope's mappings.
-      // This new map will associate the original lambdaNode.param with its canonicalParamName.
+      // It associates each original param with its canonical name. In compact mode the
+      // params of directly nested lambdas are collected into one binder list.
       const bodyBoundVarsMap = new Map(state.boundVarsMap);
-      bodyBoundVarsMap.set(lambdaNode.param, canonicalParamName);
+      const canonicalParamNames: string[] = []; // With their type annotations, if any
+      let innermostLambda = node as Lambda;
+      while (true) {
+        const canonicalParamName = state.options.keepNames ? innermostLambda.param : getCanonicalVarName(state.canonicalVarCounter);
+        state.canonicalVarCounter++; // Increment for the next distinct bound variable
+        bodyBoundVarsMap.set(innermostLambda.param, canonicalParamName);
+        canonicalParamNames.push(innermostLambda.paramType ? `${canonicalParamName}:${printBinderType(innermostLambda.paramType)}` : canonicalParamName);
+        // A lambda under a type abstraction does not join the binder list
+        if (!state.options.compactLambdas || innermostLambda.body.type !== 'lambda' || innermostLambda.body.typeOperations?.length) break;
+        innermostLambda = innermostLambda.body;
+      }
 
       // Temporarily update state.boundVarsMap for the recursive call for the body.
       const originalCallerBoundVarsMap = state.boundVarsMap;
       state.boundVarsMap = bodyBoundVarsMap;
 
-      const bodyStr = _printRecursive(lambdaNode.body, 'body', state);
+      const bodyStr = _printRecursive(innermostLambda.body, 'body', state);
 
       // Restore the caller's boundVarsMap. The canonicalVarCounter remains incremented
       // as it tracks unique canonical names across the entire term being printed.
       state.boundVarsMap = originalCallerBoundVarsMap;
 
-      result = `λ${canonicalParamName}.${bodyStr}`;
+      result = `λ${canonicalParamNames.join(' ')}.${bodyStr}`;
       break;
     case 'application':
       const appNode = node as Application;
@@ -73,13 +94,18 @@ function _printRecursive(
       result = `${funcStr} ${argStr}`;
       break;
   }
+  result = printTypeOperations(result, node);
   return needsParentheses(node, context) ? `(${result})` : result;
 }
 
 // The main exported print function.
 // It sets up the initial state for canonical printing.
-export function print(node: ASTNode, context: 'func' | 'arg' | 'body' | 'top' = 'top'): string {
+export function print(node: ASTNode, context: 'func' | 'arg' | 'body' | 'top' = 'top', options: PrintOptions = {}): string {
+  if (options.notation === 'de-bruijn') {
+    return printDeBruijn(toDeBruijn(node), context);
+  }
   const initialState: PrintState = {
+    options,
     canonicalVarCounter: 0,
     boundVarsMap: new Map(),
   };
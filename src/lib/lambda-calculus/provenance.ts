@@ -0,0 +1,45 @@
+import type { ASTNodeId } from './types';
+
+// --- Node Provenance ---
+// Every step builds a new tree with fresh node ids. The reducer records where each new node came
+// from, so that a node can be followed from one step to the next: the visualizers use this to
+// animate steps, to mark what a step produced and to keep view state attached to the same nodes.
+
+export type ProvenanceKind =
+  | 'descendant' // The same node of the term, rebuilt by the step
+  | 'argument-copy' // Part of a copy of the argument, substituted for a variable
+  | 'renamed'; // A binder or variable renamed by alpha-conversion to avoid capture
+
+export interface NodeProvenance {
+  origin: ASTNodeId; // The node of the step's input this node was copied from
+  kind: ProvenanceKind;
+}
+
+// New node id → provenance. Nodes created by the step itself (such as the lambda of an
+// η-expansion) have no entry, and neither do input nodes that are gone after the step.
+export type ProvenanceMap = Map<ASTNodeId, NodeProvenance>;
+
+export const provenanceKinds: { id: ProvenanceKind; label: string; description: string }[] = [
+  { id: 'descendant', label: 'Kept', description: 'Rebuilt from the same node of the previous term' },
+  { id: 'argument-copy', label: 'Argument copy', description: 'Part of a copy of the argument substituted in the last step' },
+  { id: 'renamed', label: 'Renamed', description: 'Renamed by α-conversion in the last step to avoid capturing a variable' },
+];
+
+// The nodes after the step that descend from any of `ids`
+export function nodesDescendingFrom(ids: Set<ASTNodeId>, provenance: ProvenanceMap): Set<ASTNodeId> {
+  const descendants = new Set<ASTNodeId>();
+  provenance.forEach(({ origin }, id) => {
+    if (ids.has(origin)) descendants.add(id);
+  });
+  return descendants;
+}
+
+// The nodes before the step that any of `ids` descends from
+export function originsOf(ids: Set<ASTNodeId>, provenance: ProvenanceMap): Set<ASTNodeId> {
+  const origins = new Set<ASTNodeId>();
+  ids.forEach(id => {
+    const entry = provenance.get(id);
+    if (entry) origins.add(entry.origin);
+  });
+  return origins;
+}
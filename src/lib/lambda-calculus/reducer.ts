@@ -1,15 +1,48 @@
 
 import type { ASTNode, Variable, Lambda, Application, ASTNodeId } from './types';
 import { generateNodeId } from './types';
+import { applyTypeOperations } from './system-f';
+import type { ProvenanceKind, ProvenanceMap } from './provenance';
 
-// Deep copy AST, generating new IDs and preserving sourcePrimitiveName
-export function cloneAST(node: ASTNode): ASTNode {
-  const newNode = { ...node, id: generateNodeId() } as ASTNode;
+// The provenance of the nodes copied so far in the current step; null outside of a step
+let currentProvenance: ProvenanceMap | null = null;
+
+// A fresh id for a copy of `source`. A copy of a copy made during the same step (as in
+// alpha-conversion) is traced back to the input node, keeping the more specific kind.
+function copyId(source: ASTNode, kind: ProvenanceKind = 'descendant'): ASTNodeId {
+  const id = generateNodeId();
+  if (currentProvenance) {
+    const earlier = currentProvenance.get(source.id);
+    currentProvenance.set(id, earlier
+      ? { origin: earlier.origin, kind: earlier.kind === 'descendant' ? kind : earlier.kind }
+      : { origin: source.id, kind });
+  }
+  return id;
+}
+
+function markRenamed(node: ASTNode) {
+  const entry = currentProvenance?.get(node.id);
+  if (entry) entry.kind = 'renamed';
+}
+
+function recordingProvenance<T>(compute: () => T): T & { provenance: ProvenanceMap } {
+  currentProvenance = new Map();
+  try {
+    return { ...compute(), provenance: currentProvenance };
+  } finally {
+    currentProvenance = null;
+  }
+}
+
+// Deep copy AST, generating new IDs and preserving sourcePrimitiveName.
+// Within a step the copies are recorded with the given kind of provenance.
+export function cloneAST(node: ASTNode, kind: ProvenanceKind = 'descendant'): ASTNode {
+  const newNode = { ...node, id: copyId(node, kind) } as ASTNode;
   if (newNode.type === 'lambda') {
-    newNode.body = cloneAST(newNode.body);
+    newNode.body = cloneAST(newNode.body, kind);
   } else if (newNode.type === 'application') {
-    newNode.func = cloneAST(newNode.func);
-    newNode.arg = cloneAST(newNode.arg);
+    newNode.func = cloneAST(newNode.func, kind);
+    newNode.arg = cloneAST(newNode.arg, kind);
   }
   return newNode;
 }
@@ -38,6 +71,7 @@ function alphaConvert(lambdaNode: Lambda, newParamName: string): Lambda {
       case 'variable':
         if (clonedNode.name === oldName) {
           clonedNode.name = newName;
+          markRenamed(clonedNode);
         }
         return clonedNode;
       case 'lambda':
@@ -54,7 +88,7 @@ function alphaConvert(lambdaNode: Lambda, newParamName: string): Lambda {
   }
   return {
     ...lambdaNode,
-    id: generateNodeId(),
+    id: copyId(lambdaNode, 'renamed'),
     sourcePrimitiveName: lambdaNode.sourcePrimitiveName,
     param: newParamName,
     body: substituteInBody(lambdaNode.body, lambdaNode.param, newParamName),
@@ -75,11 +109,12 @@ function generateFreshVar(base: string, avoid: Set<string>): string {
   return newName;
 }
 
-// Substitute `replacement` for `varName` in `node`
+// Substitute `replacement` for `varName` in `node`. Type applications on a replaced variable,
+// as in `x [A]`, move onto the replacement.
 function substitute(node: ASTNode, varName: string, replacement: ASTNode, boundInReplacementContext: Set<string> = new Set()): ASTNode {
   switch (node.type) {
     case 'variable':
-      return node.name === varName ? cloneAST(replacement) : cloneAST(node);
+      return node.name === varName ? applyTypeOperations(cloneAST(replacement, 'argument-copy'), node.typeOperations) : cloneAST(node);
     case 'lambda':
       if (node.param === varName) {
         return cloneAST(node);
@@ -109,68 +144,234 @@ function substitute(node: ASTNode, varName: string, replacement: ASTNode, boundI
   }
 }
 
-// Perform one step of beta-reduction (leftmost outermost)
-// This function now primarily returns the new AST and whether a change occurred.
-// The redexId marking is handled by analyzeForRedex for the *next* step's highlighting.
-export function reduceStep(inputNode: ASTNode): { newAst: ASTNode; changed: boolean } {
-  freshVarCounter = 0;
+export type ReductionStrategy = 'normal' | 'applicative' | 'call-by-name' | 'call-by-value' | 'head';
 
-  // Clone the input node to ensure no mutation of the original AST passed to this function
-  const node = cloneAST(inputNode);
+export interface ReductionStrategyInfo {
+  id: ReductionStrategy;
+  label: string;
+  description: string;
+}
 
-  function findAndReduceRecursive(currentNode: ASTNode): { resultNode: ASTNode; changedFlag: boolean } {
-    if (currentNode.type === 'application') {
-      if (currentNode.func.type === 'lambda') { // This is a redex
-        const reducedBody = substitute(currentNode.func.body, currentNode.func.param, currentNode.arg);
-        return { resultNode: reducedBody, changedFlag: true };
-      }
+export const reductionStrategies: ReductionStrategyInfo[] = [
+  { id: 'normal', label: 'Normal Order', description: 'Leftmost-outermost redex first, reducing under lambdas. Finds the normal form whenever one exists.' },
+  { id: 'applicative', label: 'Applicative Order', description: 'Leftmost-innermost redex first: arguments are fully reduced before they are substituted.' },
+  { id: 'call-by-name', label: 'Call-by-Name', description: 'Weak head reduction: only the head redex is contracted, never inside lambdas or arguments.' },
+  { id: 'call-by-value', label: 'Call-by-Value', description: 'Arguments are reduced to weak normal form before substitution; no reduction under lambdas.' },
+  { id: 'head', label: 'Head Reduction', description: 'Contracts the head redex, reducing under lambdas but never inside arguments. Stops at head normal form.' },
+];
 
-      const funcReduction = findAndReduceRecursive(currentNode.func);
-      if (funcReduction.changedFlag) {
-        const newAppNode = { ...cloneAST(currentNode) } as Application; // Clone to get new ID for the app node
-        newAppNode.func = funcReduction.resultNode;
-        return { resultNode: newAppNode, changedFlag: true };
-      }
+// A β-redex is an application node, an η-redex a lambda node; each is identified by that node's id
+export type ReductionKind = 'beta' | 'eta';
+
+function isBetaRedex(node: ASTNode): node is Application & { func: Lambda } {
+  return node.type === 'application' && node.func.type === 'lambda';
+}
 
-      const argReduction = findAndReduceRecursive(currentNode.arg);
-      if (argReduction.changedFlag) {
-        const newAppNode = { ...cloneAST(currentNode) } as Application; // Clone to get new ID
-        newAppNode.arg = argReduction.resultNode;
-        return { resultNode: newAppNode, changedFlag: true };
+// λx.M x where x is not free in M (and neither the application nor x has type operations)
+function isEtaRedex(node: ASTNode): node is Lambda & { body: Application } {
+  return node.type === 'lambda'
+    && node.body.type === 'application'
+    && !node.body.typeOperations?.length
+    && node.body.arg.type === 'variable'
+    && !node.body.arg.typeOperations?.length
+    && node.body.arg.name === node.param
+    && !getFreeVariables(node.body.func).has(node.param);
+}
+
+// Locates the redex that `strategy` would contract next, without cloning or mutating.
+// η-redexes are only considered when `etaReduction` is set, and only by the strategies that
+// reduce under binders: a lambda is a value for the weak ones.
+function findRedex(node: ASTNode, strategy: ReductionStrategy, etaReduction: boolean): Application | Lambda | null {
+  switch (node.type) {
+    case 'variable':
+      return null;
+    case 'lambda': {
+      const etaRedex = etaReduction && isEtaRedex(node) ? node : null;
+      switch (strategy) {
+        case 'normal':
+        case 'head':
+          return etaRedex ?? findRedex(node.body, strategy, etaReduction);
+        case 'applicative':
+          return findRedex(node.body, strategy, etaReduction) ?? etaRedex;
+        default:
+          return null;
       }
-    } else if (currentNode.type === 'lambda') {
-      const bodyReduction = findAndReduceRecursive(currentNode.body);
-      if (bodyReduction.changedFlag) {
-        const newLambdaNode = { ...cloneAST(currentNode) } as Lambda; // Clone to get new ID
-        newLambdaNode.body = bodyReduction.resultNode;
-        return { resultNode: newLambdaNode, changedFlag: true };
+    }
+    case 'application':
+      switch (strategy) {
+        case 'normal':
+          if (isBetaRedex(node)) return node;
+          return findRedex(node.func, strategy, etaReduction) ?? findRedex(node.arg, strategy, etaReduction);
+        case 'call-by-name':
+        case 'head':
+          // Head positions only: arguments are left untouched
+          if (isBetaRedex(node)) return node;
+          return findRedex(node.func, strategy, etaReduction);
+        case 'applicative':
+        case 'call-by-value':
+          // Innermost first: the function, then the argument, then the application itself
+          return findRedex(node.func, strategy, etaReduction)
+            ?? findRedex(node.arg, strategy, etaReduction)
+            ?? (isBetaRedex(node) ? node : null);
       }
+  }
+}
+
+// Rebuilds the tree with the redex identified by `redexId` contracted.
+// Every node of the result is fresh, matching the behaviour of cloneAST, and records its provenance.
+// In typed terms the type applications on the lambda are instantiated first, and the type
+// operations on the redex itself carry over to its contractum.
+function contractRedex(currentNode: ASTNode, redexId: ASTNodeId): { resultNode: ASTNode; changedFlag: boolean } {
+  if (currentNode.id === redexId && isBetaRedex(currentNode)) {
+    // Type operations left on the lambda after instantiation (only in ill-typed terms) are dropped
+    const func = applyTypeOperations({ ...currentNode.func, typeOperations: [] }, currentNode.func.typeOperations) as Lambda;
+    const reducedBody = substitute(func.body, func.param, currentNode.arg);
+    return { resultNode: applyTypeOperations(reducedBody, currentNode.typeOperations), changedFlag: true };
+  }
+  if (currentNode.id === redexId && isEtaRedex(currentNode)) {
+    return { resultNode: applyTypeOperations(cloneAST(currentNode.body.func), currentNode.typeOperations), changedFlag: true };
+  }
+
+  if (currentNode.type === 'application') {
+    const funcReduction = contractRedex(currentNode.func, redexId);
+    if (funcReduction.changedFlag) {
+      const newAppNode: Application = { ...currentNode, id: copyId(currentNode), func: funcReduction.resultNode, arg: cloneAST(currentNode.arg) };
+      return { resultNode: newAppNode, changedFlag: true };
+    }
+
+    const argReduction = contractRedex(currentNode.arg, redexId);
+    if (argReduction.changedFlag) {
+      const newAppNode: Application = { ...currentNode, id: copyId(currentNode), func: funcReduction.resultNode, arg: argReduction.resultNode };
+      return { resultNode: newAppNode, changedFlag: true };
     }
-    return { resultNode: currentNode, changedFlag: false }; // No reduction found in this branch, return original (cloned) node
+    return { resultNode: { ...currentNode, id: copyId(currentNode), func: funcReduction.resultNode, arg: argReduction.resultNode }, changedFlag: false };
+  } else if (currentNode.type === 'lambda') {
+    const bodyReduction = contractRedex(currentNode.body, redexId);
+    const newLambdaNode: Lambda = { ...currentNode, id: copyId(currentNode), body: bodyReduction.resultNode };
+    return { resultNode: newLambdaNode, changedFlag: bodyReduction.changedFlag };
   }
+  return { resultNode: cloneAST(currentNode), changedFlag: false };
+}
 
-  const { resultNode, changedFlag } = findAndReduceRecursive(node);
-  return { newAst: resultNode, changed: changedFlag };
+// Perform one step of beta-reduction (or eta-reduction, if enabled) following `strategy` (normal order by default).
+// This function primarily returns the new AST and whether a change occurred.
+// The redexId marking is handled by analyzeForRedex for the *next* step's highlighting.
+export function reduceStep(
+  inputNode: ASTNode,
+  strategy: ReductionStrategy = 'normal',
+  etaReduction: boolean = false
+): { newAst: ASTNode; changed: boolean; redexId?: ASTNodeId; kind?: ReductionKind; provenance: ProvenanceMap } {
+  const redex = findRedex(inputNode, strategy, etaReduction);
+  if (!redex) {
+    // Nothing to contract; still hand back a copy so callers never share nodes with the input
+    return recordingProvenance(() => ({ newAst: cloneAST(inputNode), changed: false }));
+  }
+  return reduceRedexById(inputNode, redex.id);
+}
+
+// Contract one specific redex, chosen by the caller (e.g. clicked in a visualizer).
+// `changed` is false when `redexId` does not name a beta- or eta-redex in `inputNode`.
+export function reduceRedexById(inputNode: ASTNode, redexId: ASTNodeId): { newAst: ASTNode; changed: boolean; redexId?: ASTNodeId; kind?: ReductionKind; provenance: ProvenanceMap } {
+  freshVarCounter = 0;
+  const { resultNode, changedFlag, provenance } = recordingProvenance(() => contractRedex(inputNode, redexId));
+  if (!changedFlag) return { newAst: resultNode, changed: false, provenance };
+  return { newAst: resultNode, changed: true, redexId, kind: findNodeById(inputNode, redexId)?.type === 'lambda' ? 'eta' : 'beta', provenance };
+}
+
+function findNodeById(node: ASTNode, nodeId: ASTNodeId): ASTNode | null {
+  if (node.id === nodeId) return node;
+  switch (node.type) {
+    case 'variable': return null;
+    case 'lambda': return findNodeById(node.body, nodeId);
+    case 'application': return findNodeById(node.func, nodeId) ?? findNodeById(node.arg, nodeId);
+  }
+}
+
+// Collect the IDs of every beta-redex in the term, in pre-order (outermost, then left to right).
+// With `etaReduction`, eta-redexes are collected too, in the same order.
+export function findAllRedexes(node: ASTNode, etaReduction: boolean = false): ASTNodeId[] {
+  const redexIds: ASTNodeId[] = [];
+  function collect(currentNode: ASTNode) {
+    if (currentNode.type === 'application') {
+      if (isBetaRedex(currentNode)) redexIds.push(currentNode.id);
+      collect(currentNode.func);
+      collect(currentNode.arg);
+    } else if (currentNode.type === 'lambda') {
+      if (etaReduction && isEtaRedex(currentNode)) redexIds.push(currentNode.id);
+      collect(currentNode.body);
+    }
+  }
+  collect(node);
+  return redexIds;
+}
+
+// Collect the IDs of every eta-redex (a lambda node) in the term, in pre-order.
+export function findAllEtaRedexes(node: ASTNode): ASTNodeId[] {
+  const betaRedexIds = new Set(findAllRedexes(node));
+  return findAllRedexes(node, true).filter(id => !betaRedexIds.has(id));
+}
+
+
+// Analyzes an AST (without cloning/mutating) to find the next redex under `strategy` for highlighting.
+export function analyzeForRedex(
+  node: ASTNode,
+  strategy: ReductionStrategy = 'normal',
+  etaReduction: boolean = false
+): { isReducible: boolean; redexId?: ASTNodeId; kind?: ReductionKind } {
+  const redex = findRedex(node, strategy, etaReduction);
+  if (!redex) return { isReducible: false };
+  return { isReducible: true, redexId: redex.id, kind: redex.type === 'lambda' ? 'eta' : 'beta' };
 }
 
+// Every variable name used in a term, bound or free
+function collectNames(node: ASTNode, names: Set<string> = new Set()): Set<string> {
+  switch (node.type) {
+    case 'variable':
+      names.add(node.name);
+      break;
+    case 'lambda':
+      names.add(node.param);
+      collectNames(node.body, names);
+      break;
+    case 'application':
+      collectNames(node.func, names);
+      collectNames(node.arg, names);
+      break;
+  }
+  return names;
+}
 
-// New function to analyze an AST (without cloning/mutating) to find the next redex for highlighting.
-export function analyzeForRedex(node: ASTNode): { isReducible: boolean; redexId?: ASTNodeId } {
-  if (node.type === 'application') {
-    if (node.func.type === 'lambda') {
-      return { isReducible: true, redexId: node.id }; // Found a redex
+// Eta-expansion of the node `nodeId`: N becomes λx.N x, with x chosen not free in N.
+// Not a reduction step, so strategies never take it; it is applied on request.
+export function etaExpand(inputNode: ASTNode, nodeId: ASTNodeId): { newAst: ASTNode; changed: boolean; provenance: ProvenanceMap } {
+  let changed = false;
+  function expand(currentNode: ASTNode): ASTNode {
+    if (currentNode.id === nodeId) {
+      changed = true;
+      // Names bound inside N are avoided too, only so that the result is easier to read
+      const usedNames = collectNames(currentNode);
+      let param = 'x';
+      for (let suffix = 1; usedNames.has(param); suffix++) param = `x${suffix}`;
+      return {
+        type: 'lambda',
+        id: generateNodeId(),
+        param,
+        body: {
+          type: 'application',
+          id: generateNodeId(),
+          func: cloneAST(currentNode),
+          arg: { type: 'variable', id: generateNodeId(), name: param },
+        },
+      };
     }
-    // Check function part first (leftmost)
-    const funcAnalysis = analyzeForRedex(node.func);
-    if (funcAnalysis.isReducible) {
-      return funcAnalysis;
+    switch (currentNode.type) {
+      case 'variable':
+        return cloneAST(currentNode);
+      case 'lambda':
+        return { ...currentNode, id: copyId(currentNode), body: expand(currentNode.body) };
+      case 'application':
+        return { ...currentNode, id: copyId(currentNode), func: expand(currentNode.func), arg: expand(currentNode.arg) };
     }
-    // If not in function, check argument part
-    return analyzeForRedex(node.arg);
-  } else if (node.type === 'lambda') {
-    // Redex can only be in the body of a lambda
-    return analyzeForRedex(node.body);
-  }
-  // Variables are not reducible
-  return { isReducible: false };
+  }
+  return recordingProvenance(() => ({ newAst: expand(inputNode), changed }));
 }
@@ -0,0 +1,119 @@
+import type { ASTNode } from './types';
+import { findAllRedexes, reduceRedexById } from './reducer';
+import { deBruijnKey } from './de-bruijn';
+import { countNodes } from './full-reduction';
+
+// --- Reduction Graph ---
+// Every term reachable from a start term by contracting any one redex at a time. Terms are
+// identified up to α-equivalence, so confluent paths meet in a single node and a step that
+// reproduces an earlier term (as in Ω) becomes an edge back to it. Exploration is breadth-first
+// and stops at the limits, leaving the terms beyond them unexplored.
+
+export interface ReductionGraphLimits {
+  maxDepth: number; // Steps from the start term
+  maxNodes: number;
+  maxTermSize: number; // Terms larger than this, in AST nodes, are not explored further
+}
+
+export const DEFAULT_REDUCTION_GRAPH_LIMITS: ReductionGraphLimits = {
+  maxDepth: 8,
+  maxNodes: 60,
+  maxTermSize: 500,
+};
+
+// The graph is built on the main thread, so the limits a user can set are capped to keep it quick
+export const MAX_REDUCTION_GRAPH_LIMITS: ReductionGraphLimits = {
+  maxDepth: 40,
+  maxNodes: 300,
+  maxTermSize: 2000,
+};
+
+export interface ReductionGraphNode {
+  index: number; // Position in `nodes`; the start term is 0
+  ast: ASTNode;
+  depth: number; // Length of the shortest path from the start term
+  isNormalForm: boolean;
+  explored: boolean; // False when a limit stopped exploration before the term's reducts were added
+}
+
+export interface ReductionGraphEdge {
+  from: number;
+  to: number;
+  redexCount: number; // Number of different redexes of `from` whose contraction gives `to`
+}
+
+export interface ReductionGraph {
+  nodes: ReductionGraphNode[];
+  edges: ReductionGraphEdge[];
+  complete: boolean; // True when every reachable term was explored
+}
+
+// With `etaReduction`, η-steps are edges too.
+export function buildReductionGraph(ast: ASTNode, limits: ReductionGraphLimits, etaReduction: boolean = false): ReductionGraph {
+  const nodes: ReductionGraphNode[] = [];
+  const edges: ReductionGraphEdge[] = [];
+  const indexByKey = new Map<string, number>();
+
+  const addNode = (term: ASTNode, depth: number): number => {
+    const index = nodes.length;
+    nodes.push({ index, ast: term, depth, isNormalForm: findAllRedexes(term, etaReduction).length === 0, explored: false });
+    indexByKey.set(deBruijnKey(term), index);
+    return index;
+  };
+
+  addNode(ast, 0);
+  let complete = true;
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (node.isNormalForm) {
+      node.explored = true;
+      continue;
+    }
+    if (node.depth >= limits.maxDepth || countNodes(node.ast) > limits.maxTermSize) {
+      complete = false;
+      continue;
+    }
+
+    const targets = new Map<number, number>(); // Target node index -> redex count
+    let truncated = false;
+    for (const redexId of findAllRedexes(node.ast, etaReduction)) {
+      const { newAst } = reduceRedexById(node.ast, redexId);
+      let target = indexByKey.get(deBruijnKey(newAst));
+      if (target === undefined) {
+        if (nodes.length >= limits.maxNodes) {
+          truncated = true;
+          continue;
+        }
+        target = addNode(newAst, node.depth + 1);
+      }
+      targets.set(target, (targets.get(target) ?? 0) + 1);
+    }
+    targets.forEach((redexCount, to) => edges.push({ from: i, to, redexCount }));
+    node.explored = !truncated;
+    if (truncated) complete = false;
+  }
+  return { nodes, edges, complete };
+}
+
+// --- Layout ---
+// Terms are placed in columns by depth, in discovery order within a column.
+
+export interface ReductionGraphLayout {
+  positions: { x: number; y: number }[]; // Centre of each node, indexed like `nodes`
+  width: number;
+  height: number;
+}
+
+export function layoutReductionGraph(graph: ReductionGraph, columnWidth: number, rowHeight: number): ReductionGraphLayout {
+  const rowsPerColumn: number[] = [];
+  const positions = graph.nodes.map(node => {
+    const row = rowsPerColumn[node.depth] ?? 0;
+    rowsPerColumn[node.depth] = row + 1;
+    return { x: (node.depth + 0.5) * columnWidth, y: (row + 0.5) * rowHeight };
+  });
+  return {
+    positions,
+    width: rowsPerColumn.length * columnWidth,
+    height: Math.max(1, ...rowsPerColumn) * rowHeight,
+  };
+}
@@ -0,0 +1,133 @@
+import type { ASTNode } from './types';
+import type { DeBruijnTerm } from './de-bruijn';
+import { toDeBruijn, fromDeBruijn } from './de-bruijn';
+import type { ReductionBudget, FullReductionProgress, FullReductionResult } from './full-reduction';
+
+// --- Sharing Evaluator ---
+// Normalization by evaluation with call-by-need. Instead of copying an argument into every
+// occurrence of the bound variable (as `substitute` does), the argument becomes a thunk in an
+// environment; all occurrences share it and it is evaluated at most once. The result is read
+// back into a term under binders, giving the same β-normal form that normal-order reduction
+// reaches (up to α-equivalence) whenever one exists.
+
+interface Thunk {
+  value?: Value;
+  term?: DeBruijnTerm; // Pending computation, dropped once evaluated
+  env?: Env;
+}
+
+// Linked list of thunks, innermost binder first, so index n is n - 1 links away
+type Env = { thunk: Thunk; next: Env } | null;
+
+// A neutral head is a free variable or a variable bound during read-back, identified by its level
+type NeutralHead = { kind: 'free'; name: string } | { kind: 'level'; level: number };
+
+type Value =
+  | { kind: 'closure'; paramHint?: string; body: DeBruijnTerm; env: Env }
+  | { kind: 'neutral'; head: NeutralHead; spine: Thunk[] };
+
+class BudgetExceeded extends Error {
+  constructor(readonly outcome: 'max-steps' | 'timeout' | 'max-size') {
+    super(outcome);
+  }
+}
+
+const TIME_CHECK_INTERVAL = 1024; // Steps between clock reads and progress reports
+
+interface EvaluationState {
+  budget: ReductionBudget;
+  startTime: number;
+  steps: number; // β-contractions, i.e. closure applications
+  size: number; // Nodes of the normal form read back so far
+  onProgress: (progress: FullReductionProgress) => void;
+}
+
+function lookup(env: Env, index: number): Thunk {
+  let current = env;
+  for (let i = 1; i < index && current; i++) current = current.next;
+  if (!current) throw new Error(`Unbound De Bruijn index ${index}.`);
+  return current.thunk;
+}
+
+function force(thunk: Thunk, state: EvaluationState): Value {
+  if (!thunk.value) {
+    thunk.value = evaluate(thunk.term!, thunk.env!, state);
+    thunk.term = undefined;
+    thunk.env = undefined;
+  }
+  return thunk.value;
+}
+
+// Evaluates to weak head normal form; arguments stay unevaluated thunks
+function evaluate(term: DeBruijnTerm, env: Env, state: EvaluationState): Value {
+  switch (term.type) {
+    case 'index':
+      return force(lookup(env, term.index), state);
+    case 'free':
+      return { kind: 'neutral', head: { kind: 'free', name: term.name }, spine: [] };
+    case 'lambda':
+      return { kind: 'closure', paramHint: term.paramHint, body: term.body, env };
+    case 'application':
+      return apply(evaluate(term.func, env, state), { term: term.arg, env }, state);
+  }
+}
+
+function apply(func: Value, arg: Thunk, state: EvaluationState): Value {
+  if (func.kind === 'neutral') {
+    return { kind: 'neutral', head: func.head, spine: [...func.spine, arg] };
+  }
+  state.steps++;
+  if (state.steps > state.budget.maxSteps) throw new BudgetExceeded('max-steps');
+  if (state.steps % TIME_CHECK_INTERVAL === 0) {
+    const elapsedMillis = Date.now() - state.startTime;
+    if (elapsedMillis > state.budget.maxMillis) throw new BudgetExceeded('timeout');
+    state.onProgress({ steps: state.steps, size: state.size, elapsedMillis });
+  }
+  return evaluate(func.body, { thunk: arg, next: func.env }, state);
+}
+
+// Counts a node of the term being read back against the size budget
+function countNode(state: EvaluationState) {
+  state.size++;
+  if (state.size > state.budget.maxSize) throw new BudgetExceeded('max-size');
+}
+
+// Reads a value back into a term; `depth` is the number of binders entered so far
+function readBack(value: Value, depth: number, state: EvaluationState): DeBruijnTerm {
+  countNode(state);
+  if (value.kind === 'closure') {
+    const variable: Thunk = { value: { kind: 'neutral', head: { kind: 'level', level: depth }, spine: [] } };
+    const body = evaluate(value.body, { thunk: variable, next: value.env }, state);
+    return { type: 'lambda', paramHint: value.paramHint, body: readBack(body, depth + 1, state) };
+  }
+  let term: DeBruijnTerm = value.head.kind === 'free'
+    ? { type: 'free', name: value.head.name }
+    : { type: 'index', index: depth - value.head.level };
+  for (const arg of value.spine) {
+    countNode(state); // The application node
+    term = { type: 'application', func: term, arg: readBack(force(arg, state), depth, state) };
+  }
+  return term;
+}
+
+// Computes the β-normal form of a term with sharing. The reduction strategy does not apply:
+// like normal order, it finds the normal form whenever the term has one.
+export function normalizeWithSharing(
+  ast: ASTNode,
+  budget: ReductionBudget,
+  onProgress: (progress: FullReductionProgress) => void
+): FullReductionResult {
+  const state: EvaluationState = { budget, startTime: Date.now(), steps: 0, size: 0, onProgress };
+  const finish = (resultAst: ASTNode, outcome: FullReductionResult['outcome']): FullReductionResult =>
+    ({ ast: resultAst, outcome, steps: state.steps, size: state.size, elapsedMillis: Date.now() - state.startTime });
+
+  try {
+    const normalForm = readBack(evaluate(toDeBruijn(ast), null, state), 0, state);
+    return finish(fromDeBruijn(normalForm), 'normal-form');
+  } catch (e) {
+    // There is no partially reduced term to show, so the input is returned unchanged
+    if (e instanceof BudgetExceeded) return finish(ast, e.outcome);
+    if (e instanceof RangeError) throw new Error('The term nests too deeply for the sharing evaluator; it may have no normal form.');
+    throw e;
+  }
+}
@@ -0,0 +1,29 @@
+import type { NamedExpression } from './predefined';
+
+// --- Standard Library ---
+// Terms beyond the basic booleans and numerals, built from them. Definitions refer to other
+// terms by `_NAME`, which the parser expands. Numerals and lists are Church-encoded, lists as
+// their right fold; encodings.ts has the Scott and Parigot versions.
+
+export const standardLibraryExpressions: NamedExpression[] = [
+  { name: "PAIR", lambda: "λa.λb.λf.f a b", description: "Pair constructor: λa.λb.λf.f a b", category: 'pairs' },
+  { name: "FST", lambda: "λp.p _TRUE", description: "First component of a pair: λp.p TRUE", category: 'pairs' },
+  { name: "SND", lambda: "λp.p _FALSE", description: "Second component of a pair: λp.p FALSE", category: 'pairs' },
+
+  { name: "NIL", lambda: "λc.λn.n", description: "Empty list: λc.λn.n", category: 'lists' },
+  { name: "CONS", lambda: "λh.λt.λc.λn.c h (t c n)", description: "Prepends h to the list t: λh.λt.λc.λn.c h (t c n)", category: 'lists' },
+  { name: "ISNIL", lambda: "λl.l (λh.λr._FALSE) _TRUE", description: "TRUE for the empty list: λl.l (λh.λr.FALSE) TRUE", category: 'lists' },
+  { name: "HEAD", lambda: "λl.l (λh.λr.h) _NIL", description: "First element of a list (NIL if empty): λl.l (λh.λr.h) NIL", category: 'lists' },
+  { name: "TAIL", lambda: "λl._FST (l (λh.λp._PAIR (_SND p) (_CONS h (_SND p))) (_PAIR _NIL _NIL))", description: "The list without its first element, rebuilt from the end with pairs like PRED", category: 'lists' },
+
+  { name: "PRED", lambda: "λn.λf.λx.n (λg.λh.h (g f)) (λu.x) (λu.u)", description: "Predecessor, with PRED 0 = 0: λn.λf.λx.n (λg.λh.h (g f)) (λu.x) (λu.u)", category: 'arithmetic' },
+  { name: "SUB", lambda: "λm.λn.n _PRED m", description: "Truncated subtraction m - n (0 if n > m): λm.λn.n PRED m", category: 'arithmetic' },
+
+  { name: "ISZERO", lambda: "λn.n (λx._FALSE) _TRUE", description: "TRUE for 0, FALSE otherwise: λn.n (λx.FALSE) TRUE", category: 'comparison' },
+  { name: "LEQ", lambda: "λm.λn._ISZERO (_SUB m n)", description: "m ≤ n: λm.λn.ISZERO (SUB m n)", category: 'comparison' },
+  { name: "EQ", lambda: "λm.λn._AND (_LEQ m n) (_LEQ n m)", description: "m = n: λm.λn.AND (LEQ m n) (LEQ n m)", category: 'comparison' },
+
+  { name: "Z-COMB", lambda: "λf.(λx.f (λv.x x v)) (λx.f (λv.x x v))", description: "Z Combinator: the fixed-point combinator for call-by-value, Y with x x η-expanded", category: 'recursion' },
+  { name: "FACT", lambda: "_Y-COMB (λf.λn._ISZERO n _1 (_MULT n (f (_PRED n))))", description: "Factorial by recursion through Y, e.g. FACT 3 = 6 (needs normal order)", category: 'recursion' },
+  { name: "FIB", lambda: "_Y-COMB (λf.λn._LEQ n _1 n (_PLUS (f (_PRED n)) (f (_SUB n _2))))", description: "Fibonacci numbers by recursion through Y, e.g. FIB 6 = 8 (needs normal order)", category: 'recursion' },
+];
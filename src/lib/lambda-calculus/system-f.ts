@@ -0,0 +1,211 @@
+import type { ASTNode, TypeExpression, TypeOperation } from './types';
+
+// --- Typed Terms ---
+// Helpers for the type annotations of simply-typed and System F terms: `λx:A.M`, `Λα.M` and
+// `M [A]`. Reduction works on the erased term, so a type application only takes effect when a
+// β-step needs the lambda below it; that is when `applyTypeOperations` instantiates it.
+
+export function printTypeExpression(type: TypeExpression, context: 'top' | 'from' = 'top'): string {
+  switch (type.kind) {
+    case 'var':
+      return type.name;
+    case 'arrow': {
+      const text = `${printTypeExpression(type.from, 'from')} → ${printTypeExpression(type.to)}`;
+      return context === 'from' ? `(${text})` : text;
+    }
+    case 'forall': {
+      const text = `∀${type.param}.${printTypeExpression(type.body)}`;
+      return context === 'from' ? `(${text})` : text;
+    }
+  }
+}
+
+// The annotation of a binder, parenthesized unless it is a single name: `λf:(A → B).M`
+export function printBinderType(type: TypeExpression): string {
+  return type.kind === 'var' ? type.name : `(${printTypeExpression(type)})`;
+}
+
+// Wraps the printed node `text` (without outer parentheses) in the node's type operations
+export function printTypeOperations(text: string, node: ASTNode): string {
+  let shape: ASTNode['type'] = node.type;
+  let result = text;
+  for (const operation of node.typeOperations ?? []) {
+    if (operation.kind === 'abstraction') {
+      result = `Λ${operation.param}.${result}`;
+      shape = 'lambda';
+    } else {
+      result = `${shape === 'lambda' ? `(${result})` : result} [${printTypeExpression(operation.type)}]`;
+      shape = 'application';
+    }
+  }
+  return result;
+}
+
+// How a node parses in context once its type operations are included: a type abstraction
+// extends to the right like a lambda, a type application binds like an application.
+export function termShape(node: ASTNode): ASTNode['type'] {
+  const operations = node.typeOperations ?? [];
+  if (operations.length === 0) return node.type;
+  return operations[operations.length - 1].kind === 'abstraction' ? 'lambda' : 'application';
+}
+
+// Whether the term is written in typed syntax anywhere
+export function hasTypeAnnotations(node: ASTNode): boolean {
+  if (node.typeOperations?.length) return true;
+  switch (node.type) {
+    case 'variable':
+      return false;
+    case 'lambda':
+      return !!node.paramType || hasTypeAnnotations(node.body);
+    case 'application':
+      return hasTypeAnnotations(node.func) || hasTypeAnnotations(node.arg);
+  }
+}
+
+// Adds type operations around a node as written, without instantiating anything
+export function addTypeOperations(node: ASTNode, operations: TypeOperation[]): ASTNode {
+  if (operations.length === 0) return node;
+  return { ...node, typeOperations: [...(node.typeOperations ?? []), ...operations] };
+}
+
+export function freeTypeVariables(type: TypeExpression, bound: Set<string> = new Set(), names: Set<string> = new Set()): Set<string> {
+  switch (type.kind) {
+    case 'var':
+      if (!bound.has(type.name)) names.add(type.name);
+      break;
+    case 'arrow':
+      freeTypeVariables(type.from, bound, names);
+      freeTypeVariables(type.to, bound, names);
+      break;
+    case 'forall':
+      freeTypeVariables(type.body, new Set([...bound, type.param]), names);
+      break;
+  }
+  return names;
+}
+
+function collectTypeNames(type: TypeExpression, names: Set<string>) {
+  if (type.kind === 'var') {
+    names.add(type.name);
+  } else if (type.kind === 'arrow') {
+    collectTypeNames(type.from, names);
+    collectTypeNames(type.to, names);
+  } else {
+    names.add(type.param);
+    collectTypeNames(type.body, names);
+  }
+}
+
+// Every type variable name used in a term's annotations, bound or free
+function collectTermTypeNames(node: ASTNode, names: Set<string> = new Set()): Set<string> {
+  for (const operation of node.typeOperations ?? []) {
+    if (operation.kind === 'abstraction') names.add(operation.param);
+    else collectTypeNames(operation.type, names);
+  }
+  if (node.type === 'lambda') {
+    if (node.paramType) collectTypeNames(node.paramType, names);
+    collectTermTypeNames(node.body, names);
+  } else if (node.type === 'application') {
+    collectTermTypeNames(node.func, names);
+    collectTermTypeNames(node.arg, names);
+  }
+  return names;
+}
+
+function freshTypeVariableName(base: string, avoid: Set<string>): string {
+  const stem = base.replace(/\d+$/, '');
+  let name = stem;
+  for (let suffix = 1; avoid.has(name); suffix++) name = `${stem}${suffix}`;
+  return name;
+}
+
+// Capture-avoiding substitution of `replacement` for the type variable `name`
+export function substituteTypeVariable(type: TypeExpression, name: string, replacement: TypeExpression): TypeExpression {
+  switch (type.kind) {
+    case 'var':
+      return type.name === name ? replacement : type;
+    case 'arrow':
+      return { kind: 'arrow', from: substituteTypeVariable(type.from, name, replacement), to: substituteTypeVariable(type.to, name, replacement) };
+    case 'forall': {
+      if (type.param === name) return type;
+      const replacementNames = freeTypeVariables(replacement);
+      if (!replacementNames.has(type.param)) {
+        return { kind: 'forall', param: type.param, body: substituteTypeVariable(type.body, name, replacement) };
+      }
+      const avoid = new Set([...replacementNames, name]);
+      collectTypeNames(type.body, avoid);
+      const param = freshTypeVariableName(type.param, avoid);
+      const renamedBody = substituteTypeVariable(type.body, type.param, { kind: 'var', name: param });
+      return { kind: 'forall', param, body: substituteTypeVariable(renamedBody, name, replacement) };
+    }
+  }
+}
+
+// Equality up to renaming of ∀-bound type variables
+export function typeExpressionsEqual(a: TypeExpression, b: TypeExpression): boolean {
+  const equal = (a: TypeExpression, b: TypeExpression, boundA: string[], boundB: string[]): boolean => {
+    if (a.kind === 'var' && b.kind === 'var') {
+      const indexA = boundA.lastIndexOf(a.name);
+      const indexB = boundB.lastIndexOf(b.name);
+      return indexA === indexB && (indexA !== -1 || a.name === b.name);
+    }
+    if (a.kind === 'arrow' && b.kind === 'arrow') {
+      return equal(a.from, b.from, boundA, boundB) && equal(a.to, b.to, boundA, boundB);
+    }
+    if (a.kind === 'forall' && b.kind === 'forall') {
+      return equal(a.body, b.body, [...boundA, a.param], [...boundB, b.param]);
+    }
+    return false;
+  };
+  return equal(a, b, [], []);
+}
+
+// Substitutes `replacement` for the type variable `name` in every annotation of a term. Only
+// type abstractions bind type variables: for a node that is the operations around it.
+export function substituteTypeInTerm(node: ASTNode, name: string, replacement: TypeExpression): ASTNode {
+  const operations = node.typeOperations ?? [];
+  if (operations.length > 0) {
+    const outermost = operations[operations.length - 1];
+    const inner: ASTNode = { ...node, typeOperations: operations.slice(0, -1) };
+    if (outermost.kind === 'application') {
+      const type = substituteTypeVariable(outermost.type, name, replacement);
+      return addTypeOperations(substituteTypeInTerm(inner, name, replacement), [{ kind: 'application', type }]);
+    }
+    if (outermost.param === name) return node;
+    const replacementNames = freeTypeVariables(replacement);
+    if (!replacementNames.has(outermost.param)) {
+      return addTypeOperations(substituteTypeInTerm(inner, name, replacement), [outermost]);
+    }
+    const param = freshTypeVariableName(outermost.param, collectTermTypeNames(inner, new Set([...replacementNames, name])));
+    const renamed = substituteTypeInTerm(inner, outermost.param, { kind: 'var', name: param });
+    return addTypeOperations(substituteTypeInTerm(renamed, name, replacement), [{ kind: 'abstraction', param }]);
+  }
+  switch (node.type) {
+    case 'variable':
+      return { ...node };
+    case 'lambda':
+      return {
+        ...node,
+        paramType: node.paramType && substituteTypeVariable(node.paramType, name, replacement),
+        body: substituteTypeInTerm(node.body, name, replacement),
+      };
+    case 'application':
+      return { ...node, func: substituteTypeInTerm(node.func, name, replacement), arg: substituteTypeInTerm(node.arg, name, replacement) };
+  }
+}
+
+// Adds type operations around a node, instantiating each type abstraction that meets a type
+// application: `(Λα.M) [A]` becomes M with A for α.
+export function applyTypeOperations(node: ASTNode, operations: TypeOperation[] = []): ASTNode {
+  let result = node;
+  for (const operation of operations) {
+    const current = result.typeOperations ?? [];
+    const outermost = current[current.length - 1];
+    if (operation.kind === 'application' && outermost?.kind === 'abstraction') {
+      result = substituteTypeInTerm({ ...result, typeOperations: current.slice(0, -1) }, outermost.param, operation.type);
+    } else {
+      result = addTypeOperations(result, [operation]);
+    }
+  }
+  return result;
+}
@@ -1,14 +1,15 @@
 
+import type { ASTNodeId } from '@/lib/lambda-calculus/types';
 import type { Grid, SvgElementData } from './tromp-types';
 
 let elementKeyCounter = 0;
 
 export class NullGrid implements Grid {
-  drawl(r: number, cstart: number, cend: number, name?: string, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void {}
-  drawv(rstart: number, rend: number, c: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void {}
-  drawfl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void {}
-  drawbl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void {}
-  drawu(rstart: number, rend: number, rback: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void {}
+  drawl(r: number, cstart: number, cend: number, name?: string, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void {}
+  drawv(rstart: number, rend: number, c: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void {}
+  drawfl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void {}
+  drawbl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void {}
+  drawu(rstart: number, rend: number, rback: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void {}
 }
 
 export class SvgCollectingGrid implements Grid {
@@ -22,7 +23,7 @@ export class SvgCollectingGrid implements Grid {
     return `tromp-elem-${elementKeyCounter++}`;
   }
 
-  drawl(r: number, cstart: number, cend: number, name?: string, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void {
+  drawl(r: number, cstart: number, cend: number, name?: string, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void {
     let line_cstart = cstart - 1/3;
     let line_cend = cend + 1/3;
     
@@ -42,10 +43,11 @@ export class SvgCollectingGrid implements Grid {
       sourcePrimitiveName,
       isHighlighted,
       isSecondaryHighlight,
+      nodeId,
     });
   }
 
-  drawv(rstart: number, rend: number, c: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void {
+  drawv(rstart: number, rend: number, c: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void {
     this.svgElements.push({
       type: 'line',
       key: this.nextKey(),
@@ -56,10 +58,11 @@ export class SvgCollectingGrid implements Grid {
       sourcePrimitiveName,
       isHighlighted,
       isSecondaryHighlight,
+      nodeId,
     });
   }
 
-  drawfl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void { 
+  drawfl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void { 
     this.svgElements.push({
       type: 'polyline',
       key: this.nextKey(),
@@ -67,10 +70,11 @@ export class SvgCollectingGrid implements Grid {
       sourcePrimitiveName,
       isHighlighted,
       isSecondaryHighlight,
+      nodeId,
     });
   }
 
-  drawbl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void { 
+  drawbl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void { 
     this.svgElements.push({
       type: 'polyline',
       key: this.nextKey(),
@@ -78,10 +82,11 @@ export class SvgCollectingGrid implements Grid {
       sourcePrimitiveName,
       isHighlighted,
       isSecondaryHighlight,
+      nodeId,
     });
   }
 
-  drawu(rstart: number, rend: number, rback: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void { 
+  drawu(rstart: number, rend: number, rback: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void { 
     this.svgElements.push({
       type: 'polyline',
       key: this.nextKey(),
@@ -89,6 +94,7 @@ export class SvgCollectingGrid implements Grid {
       sourcePrimitiveName,
       isHighlighted,
       isSecondaryHighlight,
+      nodeId,
     });
   }
 }
@@ -27,7 +27,7 @@ function drawNodeRecursive(
     if (bindingInfo === undefined) {
       const varLinePrimitiveName = term.sourcePrimitiveName || effectivePrimitiveName; 
       if (toLeave === null) {
-        grid.drawv(currentRow - 0.5, currentRow, currentCol, varLinePrimitiveName, isCurrentTermRedex, currentIsSecondaryHighlight);
+        grid.drawv(currentRow - 0.5, currentRow, currentCol, varLinePrimitiveName, isCurrentTermRedex, currentIsSecondaryHighlight, term.id);
         return {
             dimensions: { row: currentRow + 1, col: currentCol + 1 },
             leftoverConnection: undefined,
@@ -43,7 +43,7 @@ function drawNodeRecursive(
     const varLinePrimitiveName = bindingInfo.sourcePrimitiveName || term.sourcePrimitiveName || effectivePrimitiveName;
 
     if (toLeave === null) {
-        grid.drawv(bindingInfo.row, currentRow, currentCol, varLinePrimitiveName, isCurrentTermRedex, currentIsSecondaryHighlight);
+        grid.drawv(bindingInfo.row, currentRow, currentCol, varLinePrimitiveName, isCurrentTermRedex, currentIsSecondaryHighlight, term.id);
         return {
             dimensions: { row: currentRow + 1, col: currentCol + 1 },
             leftoverConnection: undefined,
@@ -90,19 +90,19 @@ function drawNodeRecursive(
     
     // The application connector (U-bar or L-shapes) uses connectorIsHighlighted and connectorIsSecondaryHighlighted.
     if (toLeave === 'L') {
-      grid.drawbl(r_over_r, bottomRowForHorizontalConnection, l_over_c, r_over_c, effectivePrimitiveName, connectorIsHighlighted, connectorIsSecondaryHighlighted);
+      grid.drawbl(r_over_r, bottomRowForHorizontalConnection, l_over_c, r_over_c, effectivePrimitiveName, connectorIsHighlighted, connectorIsSecondaryHighlighted, appNode.id);
       return {
         dimensions: { row: bottomRowForHorizontalConnection + 1, col: finalCol },
         leftoverConnection: { row: l_over_r, col: l_over_c, sourcePrimitiveName: leftResult.leftoverConnection.sourcePrimitiveName },
       };
     } else if (toLeave === 'R') {
-      grid.drawfl(l_over_r, bottomRowForHorizontalConnection, l_over_c, r_over_c, effectivePrimitiveName, connectorIsHighlighted, connectorIsSecondaryHighlighted);
+      grid.drawfl(l_over_r, bottomRowForHorizontalConnection, l_over_c, r_over_c, effectivePrimitiveName, connectorIsHighlighted, connectorIsSecondaryHighlighted, appNode.id);
       return {
         dimensions: { row: bottomRowForHorizontalConnection + 1, col: finalCol },
         leftoverConnection: { row: r_over_r, col: r_over_c, sourcePrimitiveName: rightResult.leftoverConnection.sourcePrimitiveName },
       };
     } else { 
-      grid.drawu(l_over_r, bottomRowForHorizontalConnection, r_over_r, l_over_c, r_over_c, effectivePrimitiveName, connectorIsHighlighted, connectorIsSecondaryHighlighted);
+      grid.drawu(l_over_r, bottomRowForHorizontalConnection, r_over_r, l_over_c, r_over_c, effectivePrimitiveName, connectorIsHighlighted, connectorIsSecondaryHighlighted, appNode.id);
       return {
         dimensions: { row: bottomRowForHorizontalConnection + 1, col: finalCol },
         leftoverConnection: undefined,
@@ -140,7 +140,7 @@ function drawNodeRecursive(
     // The lambda bar is highlighted if this lambda IS the redex (less common for lambda to be a redex itself)
     // or secondarily highlighted if it's part of a redex argument.
     const lambdaBarIsPrimaryHighlight = isCurrentTermRedex; 
-    grid.drawl(currentRow, currentCol, bodyResult.dimensions.col - 1, varName, effectivePrimitiveName, lambdaBarIsPrimaryHighlight, currentIsSecondaryHighlight);
+    grid.drawl(currentRow, currentCol, bodyResult.dimensions.col - 1, varName, effectivePrimitiveName, lambdaBarIsPrimaryHighlight, currentIsSecondaryHighlight, lambdaNode.id);
 
     return {
       dimensions: { row: bodyResult.dimensions.row, col: bodyResult.dimensions.col },
@@ -0,0 +1,114 @@
+import type { ASTNodeId } from '@/lib/lambda-calculus/types';
+import type { ProvenanceMap } from '@/lib/lambda-calculus/provenance';
+import type { SvgElementData } from './tromp-types';
+import type { TrompDiagramRenderData } from './renderer';
+
+// --- Step Transitions ---
+// Tweens the Tromp diagram of a term into the diagram of the term after one step. The step's
+// provenance tells which node of the old term each node of the new one was copied from; an element
+// drawn for a copy starts out where its original was drawn: the copies of the argument slide
+// from the argument into the variable positions. Elements with no copy (the redex's lambda bar
+// and U-bar, the substituted variables, an erased argument) fade out; new ones fade in.
+
+export interface TrompTransitionElement {
+  from: SvgElementData | null; // Null for an element that fades in
+  to: SvgElementData | null; // Null for an element that fades out
+}
+
+export interface TrompTransition {
+  from: TrompDiagramRenderData;
+  to: TrompDiagramRenderData;
+  elements: TrompTransitionElement[];
+}
+
+export interface TrompTransitionFrame extends Omit<TrompDiagramRenderData, 'svgElements'> {
+  elements: { element: SvgElementData; opacity: number }[];
+}
+
+type Point = [number, number];
+
+// Fade-outs come first, then the movement, then the fade-ins, overlapping a little
+const FADE_OUT_END = 0.4;
+const MOVE_START = 0.2;
+const FADE_IN_START = 0.6;
+
+export function planTrompTransition(from: TrompDiagramRenderData, to: TrompDiagramRenderData, provenance: ProvenanceMap): TrompTransition {
+  // Every node is drawn as at most one element
+  const fromByNode = new Map<ASTNodeId, SvgElementData>();
+  from.svgElements.forEach(element => {
+    if (element.nodeId) fromByNode.set(element.nodeId, element);
+  });
+
+  const copied = new Set<ASTNodeId>();
+  const elements: TrompTransitionElement[] = to.svgElements.map(element => {
+    const origin = element.nodeId ? provenance.get(element.nodeId)?.origin : undefined;
+    const original = origin ? fromByNode.get(origin) : undefined;
+    if (!origin || !original || original.type !== element.type) return { from: null, to: element };
+    copied.add(origin);
+    return { from: original, to: element };
+  });
+  from.svgElements.forEach(element => {
+    if (!element.nodeId || !copied.has(element.nodeId)) elements.push({ from: element, to: null });
+  });
+  return { from, to, elements };
+}
+
+function parsePoints(points: string): Point[] {
+  return points.split(' ').map(pair => pair.split(',').map(Number) as Point);
+}
+
+// Application connectors are drawn with three points (an L, either way round) or four (a U).
+// Both L shapes are written as degenerate U shapes, so any two connectors can be tweened.
+function connectorPoints(points: string): Point[] {
+  const parsed = parsePoints(points);
+  if (parsed.length !== 3) return parsed;
+  const [first, second, third] = parsed;
+  // drawfl goes down first, drawbl goes across first
+  return first[0] === second[0] ? [first, second, third, third] : [first, first, second, third];
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+// Progress through the part [start, end] of the transition
+const phase = (t: number, start: number, end: number) => Math.min(1, Math.max(0, (t - start) / (end - start)));
+
+function tweenElement(from: SvgElementData, to: SvgElementData, t: number): SvgElementData {
+  if (from.type === 'line' && to.type === 'line') {
+    return { ...to, x1: lerp(from.x1, to.x1, t), y1: lerp(from.y1, to.y1, t), x2: lerp(from.x2, to.x2, t), y2: lerp(from.y2, to.y2, t) };
+  }
+  if (from.type === 'polyline' && to.type === 'polyline') {
+    const fromPoints = connectorPoints(from.points);
+    const toPoints = connectorPoints(to.points);
+    if (fromPoints.length !== toPoints.length) return to;
+    const points = toPoints.map(([x, y], i) => `${lerp(fromPoints[i][0], x, t)},${lerp(fromPoints[i][1], y, t)}`).join(' ');
+    return { ...to, points };
+  }
+  return to;
+}
+
+// The diagram `progress` (0 to 1) of the way through the transition
+export function trompTransitionFrame(transition: TrompTransition, progress: number): TrompTransitionFrame {
+  const move = easeInOut(phase(progress, MOVE_START, 1));
+  const fadeOut = 1 - phase(progress, 0, FADE_OUT_END);
+  const fadeIn = phase(progress, FADE_IN_START, 1);
+  const { from, to } = transition;
+
+  const elements = transition.elements.map(({ from: start, to: end }) => {
+    if (start && end) return { element: tweenElement(start, end, move), opacity: 1 };
+    if (end) return { element: end, opacity: fadeIn };
+    return { element: { ...start!, key: `${start!.key}-leaving` }, opacity: fadeOut };
+  });
+
+  const widthInGridUnits = lerp(from.widthInGridUnits, to.widthInGridUnits, move);
+  const heightInGridUnits = lerp(from.heightInGridUnits, to.heightInGridUnits, move);
+  return {
+    elements,
+    widthInGridUnits,
+    heightInGridUnits,
+    actualWidthPx: lerp(from.actualWidthPx, to.actualWidthPx, move),
+    actualHeightPx: lerp(from.actualHeightPx, to.actualHeightPx, move),
+    viewBox: `0 0 ${widthInGridUnits} ${heightInGridUnits}`,
+  };
+}
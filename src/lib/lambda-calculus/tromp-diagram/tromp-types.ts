@@ -1,3 +1,4 @@
+import type { ASTNodeId } from '@/lib/lambda-calculus/types';
 
 export interface TrompPoint {
   row: number;
@@ -24,6 +25,7 @@ export interface SvgLine {
   sourcePrimitiveName?: string; 
   isHighlighted?: boolean;
   isSecondaryHighlight?: boolean; // New: For argument of redex
+  nodeId?: ASTNodeId; // AST node (lambda, variable or application) this element was drawn for
 }
 
 export interface SvgPolyline {
@@ -36,16 +38,17 @@ export interface SvgPolyline {
   sourcePrimitiveName?: string; 
   isHighlighted?: boolean;
   isSecondaryHighlight?: boolean; // New: For argument of redex
+  nodeId?: ASTNodeId; // AST node (lambda, variable or application) this element was drawn for
 }
 
 export type SvgElementData = SvgLine | SvgPolyline;
 
 export interface Grid {
-  drawl(r: number, cstart: number, cend: number, name?: string, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void; 
-  drawv(rstart: number, rend: number, c: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void; 
-  drawfl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void; 
-  drawbl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void; 
-  drawu(rstart: number, rend: number, rback: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean): void;
+  drawl(r: number, cstart: number, cend: number, name?: string, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void; 
+  drawv(rstart: number, rend: number, c: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void; 
+  drawfl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void; 
+  drawbl(rstart: number, rend: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void; 
+  drawu(rstart: number, rend: number, rback: number, cstart: number, cend: number, sourcePrimitiveName?: string, isHighlighted?: boolean, isSecondaryHighlight?: boolean, nodeId?: ASTNodeId): void;
 }
 
 export interface DrawTermResult {
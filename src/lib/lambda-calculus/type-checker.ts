@@ -0,0 +1,96 @@
+import type { ASTNode, ASTNodeId, TypeExpression } from './types';
+import { print } from './printer';
+import { freeTypeVariables, printTypeExpression, substituteTypeVariable, typeExpressionsEqual } from './system-f';
+
+// --- Type Checking ---
+// Checks explicitly typed terms: the simply-typed lambda calculus with annotated binders
+// `λx:A.M`, extended to System F by type abstraction `Λα.M` and type application `M [A]`.
+// Every lambda must be annotated and every variable bound. Unlike `inferTypes` nothing is
+// guessed, so the type found is the one the annotations determine.
+
+export class TypeCheckError extends Error {
+  constructor(message: string, readonly nodeId: ASTNodeId) {
+    super(message);
+    this.name = 'TypeCheckError';
+  }
+}
+
+export interface TypeCheckResult {
+  type: TypeExpression;
+  nodeTypes: Map<ASTNodeId, TypeExpression>; // Type of every sub-term, including its type operations
+}
+
+type TypingContext = { name: string; type: TypeExpression; next: TypingContext } | null;
+
+function lookupType(context: TypingContext, name: string): TypeExpression | null {
+  for (let current = context; current; current = current.next) {
+    if (current.name === name) return current.type;
+  }
+  return null;
+}
+
+function contextMentions(context: TypingContext, typeVariable: string): boolean {
+  for (let current = context; current; current = current.next) {
+    if (freeTypeVariables(current.type).has(typeVariable)) return true;
+  }
+  return false;
+}
+
+const show = (node: ASTNode) => print(node, 'top', { keepNames: true });
+
+export function checkTypes(ast: ASTNode): TypeCheckResult {
+  const nodeTypes = new Map<ASTNodeId, TypeExpression>();
+
+  const check = (node: ASTNode, context: TypingContext): TypeExpression => {
+    let type: TypeExpression;
+    switch (node.type) {
+      case 'variable': {
+        const bound = lookupType(context, node.name);
+        if (!bound) {
+          throw new TypeCheckError(`${node.name} is a free variable. In a typed term every variable must be bound by a lambda, which gives its type.`, node.id);
+        }
+        type = bound;
+        break;
+      }
+      case 'lambda': {
+        if (!node.paramType) {
+          throw new TypeCheckError(`λ${node.param} has no type annotation. In a typed term every lambda needs one, as in λ${node.param}:A.M.`, node.id);
+        }
+        type = { kind: 'arrow', from: node.paramType, to: check(node.body, { name: node.param, type: node.paramType, next: context }) };
+        break;
+      }
+      case 'application': {
+        const funcType = check(node.func, context);
+        const argType = check(node.arg, context);
+        if (funcType.kind !== 'arrow') {
+          throw new TypeCheckError(`${show(node.func)} has type ${printTypeExpression(funcType)}, which is not a function type, but it is applied to ${show(node.arg)}.`, node.id);
+        }
+        if (!typeExpressionsEqual(funcType.from, argType)) {
+          throw new TypeCheckError(`${show(node.func)} expects an argument of type ${printTypeExpression(funcType.from)}, but ${show(node.arg)} has type ${printTypeExpression(argType)}.`, node.id);
+        }
+        type = funcType.to;
+        break;
+      }
+    }
+
+    // Type operations apply from the innermost out; a type abstraction binds in everything inside it
+    (node.typeOperations ?? []).forEach((operation, i) => {
+      if (operation.kind === 'abstraction') {
+        if (contextMentions(context, operation.param)) {
+          throw new TypeCheckError(`Λ${operation.param} cannot abstract over ${operation.param}: the type of an enclosing variable already mentions it. Rename the type variable.`, node.id);
+        }
+        type = { kind: 'forall', param: operation.param, body: type };
+      } else {
+        if (type.kind !== 'forall') {
+          const operand = show({ ...node, typeOperations: node.typeOperations!.slice(0, i) });
+          throw new TypeCheckError(`${operand} has type ${printTypeExpression(type)}, which is not polymorphic, so it cannot be applied to the type [${printTypeExpression(operation.type)}].`, node.id);
+        }
+        type = substituteTypeVariable(type.body, type.param, operation.type);
+      }
+    });
+    nodeTypes.set(node.id, type);
+    return type;
+  };
+
+  return { type: check(ast, null), nodeTypes };
+}
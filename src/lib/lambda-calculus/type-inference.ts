@@ -0,0 +1,143 @@
+import type { ASTNode, ASTNodeId } from './types';
+import { print } from './printer';
+
+// --- Type Inference ---
+// Hindley–Milner inference (algorithm W with a global substitution) for the pure lambda calculus.
+// Without `let` there is no generalization, so this infers principal simple types: type variables
+// and arrows only. Free variables of the term get their own type variables, reported as
+// assumptions. Terms like `λx.x x` or `_Y-COMB` need an infinite type and fail the occurs check.
+
+export type Type =
+  | { kind: 'var'; id: number }
+  | { kind: 'arrow'; from: Type; to: Type };
+
+export class TypeInferenceError extends Error {
+  constructor(message: string, readonly nodeId: ASTNodeId) {
+    super(message);
+    this.name = 'TypeInferenceError';
+  }
+}
+
+export interface TypeInferenceResult {
+  type: Type;
+  nodeTypes: Map<ASTNodeId, Type>; // Type of every sub-term, under the principal substitution
+  freeVariables: Map<string, Type>; // Assumed types of the free variables
+}
+
+// Environments are persistent linked lists, newest binding first, so shadowing needs no copying
+type TypeEnvironment = { name: string; type: Type; next: TypeEnvironment } | null;
+
+function lookupType(env: TypeEnvironment, name: string): Type | null {
+  for (let current = env; current; current = current.next) {
+    if (current.name === name) return current.type;
+  }
+  return null;
+}
+
+export function inferTypes(ast: ASTNode): TypeInferenceResult {
+  let nextTypeVariable = 0;
+  const freshTypeVariable = (): Type => ({ kind: 'var', id: nextTypeVariable++ });
+  const substitution = new Map<number, Type>();
+  const nodeTypes = new Map<ASTNodeId, Type>();
+  const freeVariables = new Map<string, Type>();
+
+  const resolve = (type: Type): Type => {
+    let current = type;
+    while (current.kind === 'var' && substitution.has(current.id)) current = substitution.get(current.id)!;
+    return current;
+  };
+
+  // Applies the substitution everywhere inside a type
+  const applySubstitution = (type: Type): Type => {
+    const resolved = resolve(type);
+    return resolved.kind === 'var' ? resolved : { kind: 'arrow', from: applySubstitution(resolved.from), to: applySubstitution(resolved.to) };
+  };
+
+  const occurs = (id: number, type: Type): boolean => {
+    const resolved = resolve(type);
+    return resolved.kind === 'var' ? resolved.id === id : occurs(id, resolved.from) || occurs(id, resolved.to);
+  };
+
+  // `node` is the application being typed, named in the error message
+  const bindTypeVariable = (variable: Type & { kind: 'var' }, type: Type, node: ASTNode) => {
+    if (occurs(variable.id, type)) {
+      const [shownVariable, shownType] = printTypes([variable, applySubstitution(type)]);
+      throw new TypeInferenceError(
+        `Occurs check failed in ${print(node, 'top', { keepNames: true })}: ${shownVariable} would have to equal ${shownType}, an infinite type. The term has no simple type.`,
+        node.id
+      );
+    }
+    substitution.set(variable.id, type);
+  };
+
+  const unify = (a: Type, b: Type, node: ASTNode) => {
+    const left = resolve(a);
+    const right = resolve(b);
+    if (left.kind === 'var' && right.kind === 'var' && left.id === right.id) return;
+    if (left.kind === 'var') return bindTypeVariable(left, right, node);
+    if (right.kind === 'var') return bindTypeVariable(right, left, node);
+    unify(left.from, right.from, node);
+    unify(left.to, right.to, node);
+  };
+
+  const infer = (node: ASTNode, env: TypeEnvironment): Type => {
+    let type: Type;
+    switch (node.type) {
+      case 'variable': {
+        const bound = lookupType(env, node.name);
+        if (bound) {
+          type = bound;
+        } else {
+          if (!freeVariables.has(node.name)) freeVariables.set(node.name, freshTypeVariable());
+          type = freeVariables.get(node.name)!;
+        }
+        break;
+      }
+      case 'lambda': {
+        const paramType = freshTypeVariable();
+        const bodyType = infer(node.body, { name: node.param, type: paramType, next: env });
+        type = { kind: 'arrow', from: paramType, to: bodyType };
+        break;
+      }
+      case 'application': {
+        const funcType = infer(node.func, env);
+        const argType = infer(node.arg, env);
+        const resultType = freshTypeVariable();
+        unify(funcType, { kind: 'arrow', from: argType, to: resultType }, node);
+        type = resultType;
+        break;
+      }
+    }
+    nodeTypes.set(node.id, type);
+    return type;
+  };
+
+  const type = applySubstitution(infer(ast, null));
+  nodeTypes.forEach((nodeType, id) => nodeTypes.set(id, applySubstitution(nodeType)));
+  freeVariables.forEach((variableType, name) => freeVariables.set(name, applySubstitution(variableType)));
+  return { type, nodeTypes, freeVariables };
+}
+
+function typeVariableName(index: number): string {
+  const letters = 'αβγδεζηθικμνξπρστυφχψω';
+  return index < letters.length ? letters[index] : `τ${index - letters.length + 1}`;
+}
+
+// Prints types with their variables named α, β, ... in order of first appearance; the names are
+// shared between all the given types, so related types can be shown together.
+export function printTypes(types: Type[]): string[] {
+  const names = new Map<number, string>();
+  const printType = (type: Type, isArrowArgument: boolean): string => {
+    if (type.kind === 'var') {
+      if (!names.has(type.id)) names.set(type.id, typeVariableName(names.size));
+      return names.get(type.id)!;
+    }
+    const arrow = `${printType(type.from, true)} → ${printType(type.to, false)}`;
+    return isArrowArgument ? `(${arrow})` : arrow;
+  };
+  return types.map(type => printType(type, false));
+}
+
+export function printType(type: Type): string {
+  return printTypes([type])[0];
+}
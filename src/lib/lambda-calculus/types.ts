@@ -1,10 +1,26 @@
 
 export type ASTNodeId = string;
 
+// Type annotations of typed terms: simple types and System F polymorphism. A name that no `∀`
+// binds is a base type, e.g. `Nat` or `A`.
+export type TypeExpression =
+  | { kind: 'var'; name: string }
+  | { kind: 'arrow'; from: TypeExpression; to: TypeExpression }
+  | { kind: 'forall'; param: string; body: TypeExpression };
+
+// A System F type abstraction `Λα.M` or type application `M [A]`. These have no untyped
+// counterpart, so instead of being nodes of their own they are recorded on the node of `M`.
+export type TypeOperation =
+  | { kind: 'abstraction'; param: string }
+  | { kind: 'application'; type: TypeExpression };
+
 export interface BaseASTNode {
   id: ASTNodeId; // For unique identification, e.g., for React keys and animations
   isRedex?: boolean; // To mark if this node is part of the current redex
   sourcePrimitiveName?: string; // To track the original named term (e.g., "_ID", "_PLUS", "_MY_FUNC", "_2")
+  // Type operations around this node, innermost first: `(Λα.M) [A]` is M with [abstraction α, application A].
+  // Everything that works on untyped terms ignores them, i.e. sees the type-erased term.
+  typeOperations?: TypeOperation[];
 }
 
 export interface Variable extends BaseASTNode {
@@ -15,6 +31,7 @@ export interface Variable extends BaseASTNode {
 export interface Lambda extends BaseASTNode {
   type: 'lambda';
   param: string;
+  paramType?: TypeExpression; // From `λx:A.M`
   body: ASTNode;
 }
 
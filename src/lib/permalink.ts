@@ -0,0 +1,112 @@
+import type { NamedExpression } from '@/lib/lambda-calculus/predefined';
+
+// --- Permalink State ---
+// The shareable part of a session, stored in the URL fragment as `#s=<payload>`. The payload is
+// base64url-encoded JSON, deflated when the browser supports CompressionStream. The first
+// character of the payload records which: 'z' for deflated, 'j' for plain JSON.
+
+const FRAGMENT_PREFIX = '#s=';
+const PERMALINK_VERSION = 1;
+
+// One recorded step. A number is a β-step: the position of the contracted redex among all
+// β-redexes of that term in pre-order. Other steps are strings: `e<n>` contracts the n-th η-redex,
+// `x<n>` η-expands the n-th node of the term in pre-order. Node ids are regenerated on load,
+// positions are not.
+export type PermalinkStep = number | string;
+
+export interface PermalinkState {
+  expression: string;
+  customTerms: NamedExpression[]; // Only the library terms the expression refers to, directly or indirectly
+  activeTab: string;
+  strategy: string;
+  etaReduction: boolean;
+  encoding: string; // Data encoding the expression is parsed with
+  redexPath: PermalinkStep[]; // The recorded reduction path
+  historyIndex: number;
+}
+
+interface PermalinkPayload extends PermalinkState {
+  v: number;
+}
+
+// Picks the library terms an expression needs, following references inside term definitions too.
+export function collectReferencedTerms(expression: string, library: NamedExpression[]): NamedExpression[] {
+  const byName = new Map(library.map(term => [term.name, term]));
+  const used = new Set<string>();
+  const pending = [expression];
+  while (pending.length > 0) {
+    const source = pending.pop()!;
+    for (const match of source.matchAll(/_([a-zA-Z_][a-zA-Z0-9_]*(?:-[a-zA-Z0-9_]+)*)/g)) {
+      const term = byName.get(match[1]);
+      if (term && !used.has(term.name)) {
+        used.add(term.name);
+        pending.push(term.lambda);
+      }
+    }
+  }
+  return library.filter(term => used.has(term.name));
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlToBytes(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function pipeThrough(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function encodePermalinkFragment(state: PermalinkState): Promise<string> {
+  const payload: PermalinkPayload = { v: PERMALINK_VERSION, ...state };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  if (typeof CompressionStream === 'undefined') {
+    return `${FRAGMENT_PREFIX}j${bytesToBase64Url(json)}`;
+  }
+  return `${FRAGMENT_PREFIX}z${bytesToBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')))}`;
+}
+
+// Returns null when the fragment is not a permalink. Throws if it is one but cannot be read.
+export async function decodePermalinkFragment(fragment: string): Promise<PermalinkState | null> {
+  if (!fragment.startsWith(FRAGMENT_PREFIX)) return null;
+  const encoding = fragment.charAt(FRAGMENT_PREFIX.length);
+  let bytes = base64UrlToBytes(fragment.slice(FRAGMENT_PREFIX.length + 1));
+  if (encoding === 'z') {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('This browser cannot decompress the shared link.');
+    }
+    bytes = await pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+  } else if (encoding !== 'j') {
+    throw new Error('Unknown permalink encoding.');
+  }
+
+  const payload = JSON.parse(new TextDecoder().decode(bytes)) as Partial<PermalinkPayload>;
+  if (payload.v !== PERMALINK_VERSION) {
+    throw new Error(`Unsupported permalink version ${payload.v}.`);
+  }
+  if (
+    typeof payload.expression !== 'string' ||
+    !Array.isArray(payload.customTerms) ||
+    !payload.customTerms.every(term => typeof term?.name === 'string' && typeof term?.lambda === 'string') ||
+    !Array.isArray(payload.redexPath) ||
+    !payload.redexPath.every(step => (Number.isInteger(step) && (step as number) >= 0) || (typeof step === 'string' && /^[ex]\d+$/.test(step)))
+  ) {
+    throw new Error('The shared link is malformed.');
+  }
+  return {
+    expression: payload.expression,
+    customTerms: payload.customTerms,
+    activeTab: typeof payload.activeTab === 'string' ? payload.activeTab : '',
+    strategy: typeof payload.strategy === 'string' ? payload.strategy : '',
+    etaReduction: payload.etaReduction === true,
+    encoding: typeof payload.encoding === 'string' ? payload.encoding : '',
+    redexPath: payload.redexPath,
+    historyIndex: Number.isInteger(payload.historyIndex) ? payload.historyIndex! : payload.redexPath.length,
+  };
+}
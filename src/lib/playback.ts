@@ -0,0 +1,24 @@
+// --- Step Playback ---
+// How fast auto-play steps through a reduction. Each speed sets the pause between steps and the
+// duration of the animated transitions, which must end before the next step starts.
+
+export type PlaybackSpeed = 'slow' | 'normal' | 'fast' | 'fastest';
+
+export interface PlaybackSpeedInfo {
+  id: PlaybackSpeed;
+  label: string;
+  description: string;
+  stepIntervalMs: number; // Time from one auto-played step to the next
+  transitionMs: number; // Duration of the animation of one step
+}
+
+export const playbackSpeeds: PlaybackSpeedInfo[] = [
+  { id: 'slow', label: '0.5×', description: 'One step every 2 seconds', stepIntervalMs: 2000, transitionMs: 1400 },
+  { id: 'normal', label: '1×', description: 'One step per second', stepIntervalMs: 1000, transitionMs: 700 },
+  { id: 'fast', label: '2×', description: 'Two steps per second', stepIntervalMs: 500, transitionMs: 350 },
+  { id: 'fastest', label: '4×', description: 'Four steps per second', stepIntervalMs: 250, transitionMs: 175 },
+];
+
+export function playbackSpeedInfo(speed: PlaybackSpeed): PlaybackSpeedInfo {
+  return playbackSpeeds.find(info => info.id === speed) ?? playbackSpeeds[1];
+}
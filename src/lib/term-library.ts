@@ -0,0 +1,179 @@
+import type { NamedExpression } from '@/lib/lambda-calculus/predefined';
+import { predefinedExpressions } from '@/lib/lambda-calculus/predefined';
+import { parse } from '@/lib/lambda-calculus/parser';
+
+// --- Custom Term Library Files ---
+// A library file is JSON: { format, version, exportedAt, terms: [{ name, lambda, description? }] }.
+// A bare array of terms (the localStorage format) is accepted on import as well.
+
+const TERM_LIBRARY_FORMAT = 'lambdavis-term-library';
+const TERM_LIBRARY_VERSION = 1;
+const TERM_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_']*$/;
+const NAMED_TERM_REFERENCE = /_([a-zA-Z_][a-zA-Z0-9_]*(?:-[a-zA-Z0-9_]+)*)/g;
+
+interface TermLibraryFile {
+  format: string;
+  version: number;
+  exportedAt: string;
+  terms: NamedExpression[];
+}
+
+// What to do with an imported term whose name is already taken
+export type ImportConflictResolution = 'skip' | 'rename' | 'overwrite';
+
+export interface TermLibraryImportReport {
+  added: string[];
+  overwritten: string[];
+  renamed: { from: string; to: string }[];
+  skipped: string[];
+  failed: { name: string; reason: string }[];
+}
+
+export function serializeTermLibrary(terms: NamedExpression[]): string {
+  const file: TermLibraryFile = {
+    format: TERM_LIBRARY_FORMAT,
+    version: TERM_LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    terms: terms.map(({ name, lambda, description }) => (description ? { name, lambda, description } : { name, lambda })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Reads the terms of a library file. Throws if the file is not a library this version understands;
+// the terms themselves are only checked for shape here and validated while merging.
+export function parseTermLibraryFile(text: string): NamedExpression[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  let terms: unknown;
+  if (Array.isArray(data)) {
+    terms = data;
+  } else if (data && typeof data === 'object' && (data as TermLibraryFile).format === TERM_LIBRARY_FORMAT) {
+    const { version } = data as TermLibraryFile;
+    if (typeof version !== 'number' || version > TERM_LIBRARY_VERSION) {
+      throw new Error(`Library version ${version} is newer than this app supports (version ${TERM_LIBRARY_VERSION}).`);
+    }
+    terms = (data as TermLibraryFile).terms;
+  } else {
+    throw new Error('The file is not a LambdaVis term library.');
+  }
+
+  if (!Array.isArray(terms) || !terms.every(term => term && typeof term.name === 'string' && typeof term.lambda === 'string')) {
+    throw new Error('Every term in the library needs a string "name" and "lambda".');
+  }
+  return terms.map(({ name, lambda, description }) => (typeof description === 'string' ? { name, lambda, description } : { name, lambda }));
+}
+
+// Rewrites `_OLD` references to renamed terms, leaving every other `_NAME` untouched.
+function renameReferences(lambda: string, renames: Map<string, string>): string {
+  return lambda.replace(NAMED_TERM_REFERENCE, (reference, name: string) => {
+    const newName = renames.get(name);
+    return newName ? `_${newName}` : reference;
+  });
+}
+
+// Merges imported terms into the library. Names of predefined terms are never overwritten: with
+// 'overwrite' such terms are skipped. Renamed terms get the first free `NAME_2`, `NAME_3`, ... and
+// references to them inside the other imported terms are updated. Every resulting definition must
+// parse in the merged library, so imported terms may refer to each other.
+export function mergeTermLibrary(
+  existing: NamedExpression[],
+  imported: NamedExpression[],
+  resolution: ImportConflictResolution
+): { library: NamedExpression[]; report: TermLibraryImportReport } {
+  const report: TermLibraryImportReport = { added: [], overwritten: [], renamed: [], skipped: [], failed: [] };
+  const isPredefined = (name: string) => predefinedExpressions.some(expr => expr.name === name);
+  const takenNames = new Set([...predefinedExpressions, ...existing].map(expr => expr.name));
+  const importedNames = new Set<string>();
+  const allImportedNames = new Set(imported.map(term => term.name));
+
+  // First decide each term's final name, so references can be rewritten before validation
+  const renames = new Map<string, string>();
+  const accepted: { term: NamedExpression; overwrites: boolean }[] = [];
+  for (const term of imported) {
+    if (!TERM_NAME_PATTERN.test(term.name)) {
+      report.failed.push({ name: term.name, reason: 'Name must start with a letter and contain only letters, numbers, underscores or primes.' });
+      continue;
+    }
+    if (importedNames.has(term.name)) {
+      report.failed.push({ name: term.name, reason: 'Defined more than once in the file.' });
+      continue;
+    }
+    importedNames.add(term.name);
+
+    const existingTerm = existing.find(expr => expr.name === term.name);
+    if (!takenNames.has(term.name) || (existingTerm && existingTerm.lambda === term.lambda)) {
+      // New, or identical to the local definition (nothing to resolve)
+      if (existingTerm) report.skipped.push(term.name);
+      else accepted.push({ term, overwrites: false });
+      takenNames.add(term.name);
+      continue;
+    }
+    if (resolution === 'skip' || (resolution === 'overwrite' && isPredefined(term.name))) {
+      report.skipped.push(term.name);
+    } else if (resolution === 'overwrite') {
+      accepted.push({ term, overwrites: true });
+    } else {
+      let suffix = 2;
+      while (takenNames.has(`${term.name}_${suffix}`) || allImportedNames.has(`${term.name}_${suffix}`)) suffix++;
+      const newName = `${term.name}_${suffix}`;
+      takenNames.add(newName);
+      renames.set(term.name, newName);
+      accepted.push({ term: { ...term, name: newName }, overwrites: false });
+    }
+  }
+
+  const incoming = accepted.map(({ term, overwrites }) => ({
+    term: { ...term, lambda: renameReferences(term.lambda, renames) },
+    overwrites,
+  }));
+  const overwrittenNames = new Set(incoming.filter(entry => entry.overwrites).map(entry => entry.term.name));
+  let library = [
+    ...existing.map(expr => incoming.find(entry => entry.overwrites && entry.term.name === expr.name)?.term ?? expr),
+    ...incoming.filter(entry => !entry.overwrites).map(entry => entry.term),
+  ];
+
+  // Drop definitions that do not parse; repeat, since a term may have relied on a dropped one
+  const rejected = new Map<string, string>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const { term } of incoming) {
+      if (rejected.has(term.name)) continue;
+      // Unknown `_NAME`s parse as free variables, so references to rejected terms are checked explicitly
+      const rejectedReference = [...term.lambda.matchAll(NAMED_TERM_REFERENCE)].find(([, name]) => rejected.has(name));
+      try {
+        if (rejectedReference) {
+          throw new Error(`Refers to ${rejectedReference[0]}, which could not be imported.`);
+        }
+        parse(term.lambda, library);
+      } catch (e) {
+        rejected.set(term.name, e instanceof Error ? e.message : String(e));
+        const original = existing.find(expr => expr.name === term.name);
+        library = original
+          ? library.map(expr => (expr.name === term.name ? original : expr))
+          : library.filter(expr => expr.name !== term.name);
+        changed = true;
+      }
+    }
+  }
+
+  for (const { term } of incoming) {
+    const originalName = [...renames.entries()].find(([, to]) => to === term.name)?.[0];
+    const reason = rejected.get(term.name);
+    if (reason !== undefined) {
+      report.failed.push({ name: originalName ?? term.name, reason });
+    } else if (originalName) {
+      report.renamed.push({ from: originalName, to: term.name });
+    } else if (overwrittenNames.has(term.name)) {
+      report.overwritten.push(term.name);
+    } else {
+      report.added.push(term.name);
+    }
+  }
+  return { library, report };
+}
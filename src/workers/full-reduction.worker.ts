@@ -0,0 +1,17 @@
+import { runFullReductionRequest } from '@/lib/lambda-calculus/full-reduction';
+import type { FullReductionRequest, FullReductionResponse } from '@/lib/lambda-calculus/full-reduction';
+
+// Runs full reductions off the main thread. Cancelling is done by terminating the worker,
+// so a run needs no cooperative stop checks. Each worker serves a single request.
+const respond = (response: FullReductionResponse) => self.postMessage(response);
+
+self.addEventListener('message', (event: MessageEvent<FullReductionRequest>) => {
+  const request = event.data;
+  if (request.type !== 'start') return;
+  try {
+    const result = runFullReductionRequest(request, progress => respond({ type: 'progress', progress }));
+    respond({ type: 'done', result });
+  } catch (e) {
+    respond({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+});
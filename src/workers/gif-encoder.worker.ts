@@ -0,0 +1,37 @@
+import { GifEncoder } from '@/lib/gif-encoder';
+import type { GifEncoderRequest, GifEncoderResponse } from '@/lib/gif-encoder';
+
+// Encodes an animated GIF off the main thread, from frames sent one at a time. Each worker
+// serves a single export.
+const respond = (response: GifEncoderResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+let encoder: GifEncoder | null = null;
+
+self.addEventListener('message', (event: MessageEvent<GifEncoderRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'start') {
+      encoder = new GifEncoder(request.width, request.height);
+      respond({ type: 'ready' });
+      return;
+    }
+    if (!encoder) throw new Error("The GIF encoder was not started.");
+    switch (request.type) {
+      case 'sample':
+        encoder.addSample(request.pixels);
+        respond({ type: 'ready' });
+        break;
+      case 'frame':
+        encoder.addFrame(request.pixels, request.delayMs);
+        respond({ type: 'ready' });
+        break;
+      case 'finish': {
+        const bytes = encoder.finish();
+        respond({ type: 'done', bytes }, [bytes.buffer]);
+        break;
+      }
+    }
+  } catch (e) {
+    respond({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+});
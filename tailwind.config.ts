@@ -68,6 +68,9 @@ export default {
         'ast-application-bg': 'hsl(var(--ast-application-bg))',
         'ast-application-fg': 'hsl(var(--ast-application-fg))',
         'ast-highlight-bg': 'hsl(var(--ast-highlight-bg))',
+        'ast-eta-highlight-bg': 'hsl(var(--ast-eta-highlight-bg))',
+        'ast-argument-copy': 'hsl(var(--ast-argument-copy))',
+        'ast-renamed': 'hsl(var(--ast-renamed))',
         'ast-highlight-fg': 'hsl(var(--ast-highlight-fg))',
   		},
   		borderRadius: {